@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "LlmUsage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "endpoint" TEXT,
+    "agentId" TEXT,
+    "conversationId" TEXT,
+    "projectId" TEXT,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL DEFAULT 0,
+    "estimatedCost" REAL NOT NULL DEFAULT 0,
+    "streamed" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_agentId_idx" ON "LlmUsage"("agentId");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_conversationId_idx" ON "LlmUsage"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_projectId_idx" ON "LlmUsage"("projectId");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ProviderSetting" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "baseUrl" TEXT,
+    "encryptedApiKey" TEXT,
+    "models" TEXT NOT NULL DEFAULT '[]',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProviderSetting_name_key" ON "ProviderSetting"("name");
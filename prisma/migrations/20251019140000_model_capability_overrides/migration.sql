@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ModelCapabilityOverride" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL DEFAULT '',
+    "model" TEXT NOT NULL,
+    "contextWindow" INTEGER,
+    "toolCalling" BOOLEAN,
+    "jsonMode" BOOLEAN,
+    "vision" BOOLEAN,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ModelCapabilityOverride_provider_endpoint_model_key" ON "ModelCapabilityOverride"("provider", "endpoint", "model");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN "approvalGates" TEXT NOT NULL DEFAULT '[]';
+
+-- CreateTable
+CREATE TABLE "WorkflowApproval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "conversationId" TEXT NOT NULL,
+    "gate" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "agentId" TEXT,
+    "title" TEXT NOT NULL,
+    "details" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "approver" TEXT,
+    "comment" TEXT,
+    "stateSnapshot" TEXT,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowApproval_conversationId_status_idx" ON "WorkflowApproval"("conversationId", "status");
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "WorkflowRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "conversationId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "workflowMode" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "state" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowRunStep" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "phase" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "messageId" TEXT,
+    "detail" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WorkflowRunStep_runId_fkey" FOREIGN KEY ("runId") REFERENCES "WorkflowRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowRun_conversationId_idx" ON "WorkflowRun"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "WorkflowRun_status_idx" ON "WorkflowRun"("status");
+
+-- CreateIndex
+CREATE INDEX "WorkflowRunStep_runId_idx" ON "WorkflowRunStep"("runId");
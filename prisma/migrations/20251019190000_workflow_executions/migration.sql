@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "WorkflowExecution" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workflowId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "currentPhase" TEXT NOT NULL,
+    "currentAgent" TEXT,
+    "iterations" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "metrics" TEXT NOT NULL,
+    "logs" TEXT NOT NULL,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "duration" INTEGER
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowExecution_conversationId_idx" ON "WorkflowExecution"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "WorkflowExecution_status_idx" ON "WorkflowExecution"("status");
@@ -4,7 +4,8 @@ import { WorkflowValidator } from '../services/WorkflowValidator';
 import { WorkflowConfig, WorkflowTemplate } from '../../shared/types';
 
 const router = express.Router();
-const workflowBuilder = new WorkflowBuilder();
+// Shared with the orchestrator, which runs the templates published here
+export const workflowBuilder = new WorkflowBuilder();
 const workflowValidator = new WorkflowValidator();
 
 // Get all templates and categories
@@ -13,8 +13,16 @@ dotenv.config();
 import { ConversationService } from './services/ConversationService';
 import { LLMService } from './services/LLMService';
 import { MemoryService } from './services/MemoryService';
+import { UsageService } from './services/UsageService';
+import { ProviderSettingsService } from './services/ProviderSettingsService';
+import { ModelRegistry } from './services/ModelRegistry';
+import { TeamService } from './services/TeamService';
+import { ApprovalService, ApprovalClosedError } from './services/ApprovalService';
+import { WorkflowRunService } from './services/WorkflowRunService';
+import { WorkflowExecutionService } from './services/WorkflowExecutionService';
+import { ContextAssembler } from './services/ContextAssembler';
 import { WorkflowOrchestrator } from './services/WorkflowOrchestrator';
-import { Message } from '../shared/types';
+import { Message, WorkflowApproval, WorkflowRunStatus, WorkflowExecution, QueuePolicy } from '../shared/types';
 
 const app = express();
 const server = createServer(app);
@@ -27,17 +35,79 @@ const io = new SocketIOServer(server, {
 
 const prisma = new PrismaClient();
 const PORT = process.env.PORT || 3001;
+const QUEUE_POLICIES: QueuePolicy[] = ['fifo', 'latest-wins', 'interrupt'];
 
 // Initialize services
 const llmService = new LLMService();
 const memoryService = new MemoryService(prisma);
 const conversationService = new ConversationService(prisma, io);
+const usageService = new UsageService(prisma, io);
+const providerSettingsService = new ProviderSettingsService(prisma, llmService);
+const modelRegistry = new ModelRegistry(prisma, llmService);
+const teamService = new TeamService(prisma);
+const approvalService = new ApprovalService(prisma, io);
+const workflowRunService = new WorkflowRunService(prisma);
+const workflowExecutionService = new WorkflowExecutionService(prisma, io);
+const contextAssembler = new ContextAssembler(conversationService, memoryService);
+
+// Providers configured in the app take precedence over environment variables
+providerSettingsService.applyStoredSettings().catch(error => {
+  console.error('❌ Failed to load stored provider settings:', error);
+});
+
+// Record tokens, latency and cost of every LLM call
+llmService.setUsageRecorder(entry => usageService.record(entry));
+
+// Queue depth and waits per provider, for the status bar
+llmService.setQueueListener(stats => io.emit('llm-queue-updated', stats));
 
 // Initialize unified workflow orchestrator (replaces AgentOrchestrator)
-const workflowOrchestrator = new WorkflowOrchestrator(prisma);
+const workflowOrchestrator = new WorkflowOrchestrator(prisma, llmService, modelRegistry);
 
 // Set up Socket.IO for streaming
 workflowOrchestrator.setSocketIO(io);
+workflowOrchestrator.setConversationService(conversationService);
+workflowOrchestrator.setTeamService(teamService);
+workflowOrchestrator.setApprovalService(approvalService);
+workflowOrchestrator.setWorkflowRunService(workflowRunService);
+workflowOrchestrator.setWorkflowExecutionService(workflowExecutionService);
+workflowOrchestrator.setContextAssembler(contextAssembler);
+
+// Messages sent while a workflow runs wait their turn unless configured otherwise
+const defaultQueuePolicy = process.env.WORKFLOW_QUEUE_POLICY as QueuePolicy | undefined;
+if (defaultQueuePolicy && QUEUE_POLICIES.includes(defaultQueuePolicy)) {
+  workflowOrchestrator.setDefaultQueuePolicy(defaultQueuePolicy);
+} else if (defaultQueuePolicy) {
+  console.warn(`⚠️ Unknown WORKFLOW_QUEUE_POLICY "${defaultQueuePolicy}"; using fifo`);
+}
+
+// Built-in tools agents can enable via config.tools
+workflowOrchestrator.registerTool({
+  id: 'search_conversation_memory',
+  name: 'Search Conversation Memory',
+  description: 'Search the memory of the current conversation for entries matching a text query',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Text to search for' }
+    },
+    required: ['query']
+  },
+  execute: async (params, _agentId, context) => {
+    if (!context.conversationId) {
+      throw new Error('No conversation available to search');
+    }
+    return memoryService.searchMemory('conversation', context.conversationId, String(params.query || ''));
+  }
+});
+
+workflowOrchestrator.registerTool({
+  id: 'get_current_time',
+  name: 'Get Current Time',
+  description: 'Get the current date and time as an ISO 8601 string',
+  parameters: { type: 'object', properties: {} },
+  execute: async () => new Date().toISOString()
+});
 
 // Middleware
 app.use(cors({
@@ -165,6 +235,200 @@ app.delete('/api/conversations/:id', async (req, res) => {
   }
 });
 
+app.put('/api/conversations/:id/team', async (req, res) => {
+  try {
+    const { teamId } = req.body;
+    if (teamId !== null && typeof teamId !== 'string') {
+      return res.status(400).json({ error: 'teamId must be a team ID or null' });
+    }
+
+    if (!await teamService.assignToConversation(req.params.id, teamId)) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json({ success: true, teamId });
+  } catch (error: any) {
+    console.error('Error assigning team to conversation:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.put('/api/conversations/:id/workflow-template', async (req, res) => {
+  try {
+    const { templateId } = req.body;
+    if (templateId !== null && typeof templateId !== 'string') {
+      return res.status(400).json({ error: 'templateId must be a template ID or null' });
+    }
+    if (templateId && !workflowBuilder.getTemplateById(templateId)) {
+      return res.status(404).json({ error: `Workflow template ${templateId} not found` });
+    }
+
+    if (!await conversationService.setWorkflowTemplate(req.params.id, templateId)) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json({ success: true, templateId });
+  } catch (error: any) {
+    console.error('Error setting conversation workflow template:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ===== Conversation Queue & Lock Routes =====
+app.put('/api/conversations/:id/queue-policy', async (req, res) => {
+  try {
+    const { policy } = req.body;
+    if (policy !== null && !QUEUE_POLICIES.includes(policy)) {
+      return res.status(400).json({ error: `policy must be one of ${QUEUE_POLICIES.join(', ')} or null` });
+    }
+
+    if (!await conversationService.setQueuePolicy(req.params.id, policy)) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json({ success: true, policy });
+  } catch (error: any) {
+    console.error('Error setting conversation queue policy:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/conversations/:id/status', (req, res) => {
+  try {
+    res.json(workflowOrchestrator.getConversationStatus(req.params.id));
+  } catch (error: any) {
+    console.error('Error getting conversation status:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/conversations/:id/stuck', (req, res) => {
+  try {
+    const isStuck = workflowOrchestrator.isConversationStuck(req.params.id);
+    res.json({ conversationId: req.params.id, isStuck });
+  } catch (error: any) {
+    console.error('Error checking conversation status:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/conversations/:id/reset', (req, res) => {
+  try {
+    // Cancels the running workflow and drops the messages queued behind it
+    workflowOrchestrator.resetConversationState(req.params.id, req.body?.reason || 'Manual reset');
+    res.json({ success: true, message: 'Conversation reset' });
+  } catch (error: any) {
+    console.error('Error resetting conversation:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ===== Approval Routes =====
+app.get('/api/conversations/:id/approvals', async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status as WorkflowApproval['status'] : undefined;
+    res.json({ approvals: await approvalService.list(req.params.id, status) });
+  } catch (error: any) {
+    console.error('Error listing approvals:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/approvals/:id', async (req, res) => {
+  try {
+    const approval = await approvalService.get(req.params.id);
+    if (!approval) {
+      return res.status(404).json({ error: 'Approval not found' });
+    }
+    res.json({ approval });
+  } catch (error: any) {
+    console.error('Error fetching approval:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/approvals/:id/decision', async (req, res) => {
+  try {
+    const { approved, approver, comment } = req.body;
+    if (typeof approved !== 'boolean') {
+      return res.status(400).json({ error: 'approved must be true or false' });
+    }
+
+    const approval = await approvalService.decide(req.params.id, {
+      approved,
+      approver: typeof approver === 'string' && approver.trim() ? approver.trim() : 'user',
+      comment: typeof comment === 'string' ? comment : undefined
+    });
+    if (!approval) {
+      return res.status(404).json({ error: 'Approval not found' });
+    }
+    res.json({ approval });
+  } catch (error: any) {
+    if (error instanceof ApprovalClosedError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Error deciding approval:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ===== Team Routes =====
+app.get('/api/teams', async (_req, res) => {
+  try {
+    res.json({ teams: await teamService.list() });
+  } catch (error: any) {
+    console.error('Error listing teams:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/teams/:id', async (req, res) => {
+  try {
+    const team = await teamService.get(req.params.id);
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    res.json(team);
+  } catch (error: any) {
+    console.error('Error fetching team:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/teams', async (req, res) => {
+  try {
+    const { name, description, leadAgentId, members, approvalGates } = req.body;
+    const team = await teamService.create({ name, description, leadAgentId, members, approvalGates });
+    res.status(201).json(team);
+  } catch (error: any) {
+    console.error('Error creating team:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.put('/api/teams/:id', async (req, res) => {
+  try {
+    const { name, description, leadAgentId, members, approvalGates } = req.body;
+    const team = await teamService.update(req.params.id, { name, description, leadAgentId, members, approvalGates });
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    res.json(team);
+  } catch (error: any) {
+    console.error('Error updating team:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.delete('/api/teams/:id', async (req, res) => {
+  try {
+    if (!await teamService.remove(req.params.id)) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing team:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ===== Message Routes =====
 app.post('/api/messages', async (req, res) => {
   try {
@@ -226,9 +490,10 @@ app.post('/api/memory/:scope/:scopeId/search', async (req, res) => {
 });
 
 // ===== Workflow Routes =====
-import workflowRoutes from './routes/workflow';
+import workflowRoutes, { workflowBuilder } from './routes/workflow';
 
 app.use('/api/workflow', workflowRoutes);
+workflowOrchestrator.setWorkflowBuilder(workflowBuilder);
 
 app.post('/api/workflow/process', async (req, res) => {
   try {
@@ -277,6 +542,118 @@ app.get('/api/workflow/state/:conversationId', async (req, res) => {
   }
 });
 
+app.post('/api/workflow/cancel/:conversationId', (req, res) => {
+  try {
+    const { conversationId } = req.params;
+    const cancelled = workflowOrchestrator.cancelWorkflow(conversationId, req.body?.reason);
+    
+    if (!cancelled) {
+      return res.status(404).json({ error: 'No workflow is running for this conversation' });
+    }
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error cancelling workflow:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/workflow/executions', async (req, res) => {
+  try {
+    const { status, conversationId, workflowId, limit } = req.query;
+    const executions = await workflowExecutionService.list({
+      status: typeof status === 'string' ? status as WorkflowExecution['status'] : undefined,
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+      workflowId: typeof workflowId === 'string' ? workflowId : undefined,
+      limit: typeof limit === 'string' ? parseInt(limit, 10) || undefined : undefined
+    });
+    res.json({ executions });
+  } catch (error: any) {
+    console.error('Error fetching workflow executions:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/workflow/executions/:id', async (req, res) => {
+  try {
+    const execution = await workflowExecutionService.get(req.params.id);
+    if (!execution) {
+      return res.status(404).json({ error: 'Workflow execution not found' });
+    }
+    res.json({ execution });
+  } catch (error: any) {
+    console.error('Error fetching workflow execution:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/workflow/runs', async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status as WorkflowRunStatus : undefined;
+    const conversationId = typeof req.query.conversationId === 'string' ? req.query.conversationId : undefined;
+    res.json({ runs: await workflowRunService.list({ status, conversationId }) });
+  } catch (error: any) {
+    console.error('Error fetching workflow runs:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/workflow/runs/:id', async (req, res) => {
+  try {
+    const details = await workflowRunService.get(req.params.id);
+    if (!details) {
+      return res.status(404).json({ error: 'Workflow run not found' });
+    }
+    res.json(details);
+  } catch (error: any) {
+    console.error('Error fetching workflow run:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/workflow/runs/:id/resume', async (req, res) => {
+  try {
+    const details = await workflowRunService.get(req.params.id);
+    if (!details) {
+      return res.status(404).json({ error: 'Workflow run not found' });
+    }
+    if (details.run.status !== 'interrupted') {
+      return res.status(409).json({ error: `Workflow run is ${details.run.status}, not interrupted` });
+    }
+    if (workflowOrchestrator.isWorkflowRunning(details.run.conversationId)) {
+      return res.status(409).json({ error: 'Another workflow is running in this conversation' });
+    }
+    
+    // Resumed agents reply over the socket like any other run
+    workflowOrchestrator.resumeWorkflow(req.params.id)
+      .then(state => workflowOrchestrator.saveWorkflowState(state))
+      .catch(error => console.error(`Error resuming workflow run ${req.params.id}:`, error));
+    
+    res.status(202).json({ success: true, run: details.run });
+  } catch (error: any) {
+    console.error('Error resuming workflow run:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/workflow/runs/:id/abandon', async (req, res) => {
+  try {
+    const details = await workflowRunService.get(req.params.id);
+    if (!details) {
+      return res.status(404).json({ error: 'Workflow run not found' });
+    }
+    if (details.run.status !== 'interrupted') {
+      return res.status(409).json({ error: `Workflow run is ${details.run.status}, not interrupted` });
+    }
+    
+    await workflowOrchestrator.abandonWorkflow(req.params.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error abandoning workflow run:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ===== LLM/Ollama Routes =====
 app.get('/api/ollama/status', async (req, res) => {
   try {
@@ -367,9 +744,46 @@ app.get('/api/llm/status', async (req, res) => {
   }
 });
 
+app.get('/api/llm/endpoints', (_req, res) => {
+  try {
+    res.json({ endpoints: llmService.getOpenAICompatibleEndpoints() });
+  } catch (error: any) {
+    console.error('Error listing OpenAI-compatible endpoints:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/llm/endpoints', (req, res) => {
+  try {
+    const { name, baseUrl, apiKey, models } = req.body;
+    
+    if (!name || !baseUrl) {
+      return res.status(400).json({ error: 'Name and baseUrl are required' });
+    }
+    
+    llmService.registerOpenAICompatibleEndpoint({ name, baseUrl, apiKey, models });
+    res.json({ success: true, endpoints: llmService.getOpenAICompatibleEndpoints() });
+  } catch (error: any) {
+    console.error('Error registering OpenAI-compatible endpoint:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/llm/endpoints/:name', (req, res) => {
+  try {
+    if (!llmService.removeOpenAICompatibleEndpoint(req.params.name)) {
+      return res.status(404).json({ error: 'Endpoint not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing OpenAI-compatible endpoint:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 app.get('/api/llm/:provider/models', async (req, res) => {
   try {
-    const models = await llmService.listAvailableModels(req.params.provider);
+    const models = await llmService.listAvailableModels(req.params.provider, req.query.endpoint as string | undefined);
     res.json({ models });
   } catch (error: any) {
     console.error('Error listing models:', error);
@@ -377,6 +791,174 @@ app.get('/api/llm/:provider/models', async (req, res) => {
   }
 });
 
+app.get('/api/llm/queue', (_req, res) => {
+  res.json({ queues: llmService.getQueueStats() });
+});
+
+app.put('/api/llm/limits/:provider', (req, res) => {
+  try {
+    const { concurrency, requestsPerMinute } = req.body;
+    
+    if (typeof concurrency !== 'number' || concurrency < 1) {
+      return res.status(400).json({ error: 'concurrency must be a number of at least 1' });
+    }
+    if (requestsPerMinute !== undefined && requestsPerMinute !== null && (typeof requestsPerMinute !== 'number' || requestsPerMinute < 0)) {
+      return res.status(400).json({ error: 'requestsPerMinute must be a non-negative number' });
+    }
+    
+    llmService.setProviderLimits(req.params.provider, { concurrency, requestsPerMinute: requestsPerMinute || undefined });
+    res.json({ provider: req.params.provider, limits: llmService.getProviderLimits(req.params.provider) });
+  } catch (error: any) {
+    console.error('Error setting LLM limits:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ===== Provider Settings Routes =====
+app.get('/api/providers', async (_req, res) => {
+  try {
+    res.json({ providers: await providerSettingsService.list() });
+  } catch (error: any) {
+    console.error('Error listing provider settings:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/providers', async (req, res) => {
+  try {
+    const { type, name, baseUrl, apiKey, models, enabled } = req.body;
+    
+    if (!type || !providerSettingsService.isProviderType(type)) {
+      return res.status(400).json({ error: 'A valid provider type is required' });
+    }
+    
+    const provider = await providerSettingsService.create({ type, name, baseUrl, apiKey, models, enabled });
+    res.status(201).json(provider);
+  } catch (error: any) {
+    console.error('Error creating provider settings:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.put('/api/providers/:id', async (req, res) => {
+  try {
+    const { type, name, baseUrl, apiKey, models, enabled } = req.body;
+    const provider = await providerSettingsService.update(req.params.id, { type, name, baseUrl, apiKey, models, enabled });
+    
+    if (!provider) {
+      return res.status(404).json({ error: 'Provider not found' });
+    }
+    res.json(provider);
+  } catch (error: any) {
+    console.error('Error updating provider settings:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.delete('/api/providers/:id', async (req, res) => {
+  try {
+    if (!await providerSettingsService.remove(req.params.id)) {
+      return res.status(404).json({ error: 'Provider not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing provider settings:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/providers/:id/test', async (req, res) => {
+  try {
+    const result = await providerSettingsService.test(req.params.id);
+    
+    if (!result) {
+      return res.status(404).json({ error: 'Provider not found' });
+    }
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error testing provider:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ===== Model Registry Routes =====
+app.get('/api/models', async (req, res) => {
+  try {
+    res.json({ models: await modelRegistry.list({ refresh: req.query.refresh === 'true' }) });
+  } catch (error: any) {
+    console.error('Error listing models:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/models/overrides', async (req, res) => {
+  try {
+    const { provider, endpoint, model, capabilities } = req.body;
+    
+    if (!provider || !model || !providerSettingsService.isProviderType(provider)) {
+      return res.status(400).json({ error: 'A valid provider and model are required' });
+    }
+    
+    res.json(await modelRegistry.setOverride(provider, model, endpoint, capabilities || {}));
+  } catch (error: any) {
+    console.error('Error saving model capability override:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/models/overrides', async (req, res) => {
+  try {
+    const { provider, endpoint, model } = req.query as Record<string, string | undefined>;
+    
+    if (!provider || !model) {
+      return res.status(400).json({ error: 'provider and model are required' });
+    }
+    if (!await modelRegistry.removeOverride(provider, model, endpoint)) {
+      return res.status(404).json({ error: 'Override not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing model capability override:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ===== Usage Routes =====
+app.get('/api/usage/totals', async (req, res) => {
+  try {
+    const totals = await usageService.getTotals({
+      agentId: req.query.agentId as string | undefined,
+      conversationId: req.query.conversationId as string | undefined,
+      projectId: req.query.projectId as string | undefined,
+      provider: req.query.provider as string | undefined,
+    });
+    res.json(totals);
+  } catch (error: any) {
+    console.error('Error fetching usage totals:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/usage/breakdown/:dimension', async (req, res) => {
+  try {
+    const { dimension } = req.params;
+    if (!usageService.isDimension(dimension)) {
+      return res.status(400).json({ error: 'Dimension must be one of agent, conversation, project, provider, model' });
+    }
+
+    const rows = await usageService.getBreakdown(dimension, {
+      agentId: req.query.agentId as string | undefined,
+      conversationId: req.query.conversationId as string | undefined,
+      projectId: req.query.projectId as string | undefined,
+      provider: req.query.provider as string | undefined,
+    });
+    res.json({ dimension, rows });
+  } catch (error: any) {
+    console.error('Error fetching usage breakdown:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ===== Tools Routes =====
 app.get('/api/tools', (req, res) => {
   try {
@@ -384,7 +966,8 @@ app.get('/api/tools', (req, res) => {
     res.json(tools.map(t => ({
       id: t.id,
       name: t.name,
-      description: t.description
+      description: t.description,
+      parameters: t.parameters
     })));
   } catch (error: any) {
     console.error('Error fetching tools:', error);
@@ -395,8 +978,8 @@ app.get('/api/tools', (req, res) => {
 app.post('/api/tools/:toolId/execute', async (req, res) => {
   try {
     const { toolId } = req.params;
-    const { params, agentId } = req.body;
-    const result = await workflowOrchestrator.executeTool(toolId, params, agentId);
+    const { params, agentId, conversationId } = req.body;
+    const result = await workflowOrchestrator.executeTool(toolId, params, agentId, { conversationId });
     res.json(result);
   } catch (error: any) {
     console.error('Error executing tool:', error);
@@ -494,16 +1077,8 @@ io.on('connection', (socket) => {
             error: workflowResult.error
           });
           
-          // Save the workflow state
+          // Save the workflow state; agent messages were saved and sent as they were produced
           workflowOrchestrator.saveWorkflowState(workflowResult);
-          
-          // Broadcast all the messages from the workflow result
-          for (const workflowMessage of workflowResult.messages) {
-            console.log(`📤 [WORKFLOW] Broadcasting message from ${workflowMessage.senderId}: ${workflowMessage.content.substring(0, 100)}...`);
-            io.to(`conversation:${workflowMessage.conversationId || data.conversationId}`).emit('new-message', workflowMessage);
-          }
-          
-          console.log(`✅ [WORKFLOW] All ${workflowResult.messages.length} workflow messages broadcasted`);
         } catch (workflowError) {
           console.error('❌ [WORKFLOW] Workflow processing error:', workflowError);
           console.log('🔄 [FALLBACK] No fallback available - workflow processing failed');
@@ -518,6 +1093,26 @@ io.on('connection', (socket) => {
     }
   });
 
+  socket.on('cancel-workflow', (data) => {
+    if (data?.conversationId) {
+      const cancelled = workflowOrchestrator.cancelWorkflow(data.conversationId, data.reason);
+      console.log(`🛑 Socket ${socket.id} cancel request for ${data.conversationId}: ${cancelled ? 'cancelled' : 'nothing running'}`);
+    }
+  });
+
+  socket.on('approval-decision', async (data) => {
+    if (!data?.approvalId || typeof data.approved !== 'boolean') return;
+    try {
+      await approvalService.decide(data.approvalId, {
+        approved: data.approved,
+        approver: data.approver || 'user',
+        comment: data.comment
+      });
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
   socket.on('disconnect', () => {
     console.log('Socket disconnected:', socket.id);
   });
@@ -568,6 +1163,28 @@ async function startServer() {
     }
     console.log('✅ LLM connection tests completed');
 
+    // Workflows waiting on approvals didn't survive the restart
+    try {
+      const orphaned = await approvalService.cancelOrphaned();
+      if (orphaned > 0) console.log(`✋ Cancelled ${orphaned} approvals left pending by the last run`);
+    } catch (error: any) {
+      console.warn('⚠️ Could not clean up pending approvals:', error.message);
+    }
+
+    // Runs still marked running were cut short by the restart; they wait to be resumed or abandoned
+    try {
+      const interrupted = await workflowRunService.markInterrupted();
+      if (interrupted > 0) console.log(`⏸️ ${interrupted} workflow runs were interrupted by the last shutdown`);
+    } catch (error: any) {
+      console.warn('⚠️ Could not mark interrupted workflow runs:', error.message);
+    }
+    try {
+      const failed = await workflowExecutionService.failAbandoned();
+      if (failed > 0) console.log(`📊 Marked ${failed} unfinished workflow executions as failed`);
+    } catch (error: any) {
+      console.warn('⚠️ Could not close unfinished workflow executions:', error.message);
+    }
+
     // Load agents
     console.log('🔍 Loading agents...');
     try {
@@ -0,0 +1,183 @@
+import { PrismaClient } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { ApprovalDecision, ApprovalGate, ApprovalStatus, WorkflowApproval } from '../../shared/types';
+
+export class ApprovalClosedError extends Error {
+  constructor(message: string, public approvalId: string) {
+    super(message);
+    this.name = 'ApprovalClosedError';
+  }
+}
+
+export interface ApprovalRequest {
+  conversationId: string;
+  gate: WorkflowApproval['gate'];
+  target: string;
+  agentId?: string;
+  title: string;
+  details?: Record<string, any>;
+  timeoutSeconds?: number;
+  onTimeout?: ApprovalGate['onTimeout'];
+  stateSnapshot?: unknown; // Workflow state at the gate, kept with the request
+  signal?: AbortSignal; // Cancels the request when the workflow is cancelled
+}
+
+interface PendingApproval {
+  approval: WorkflowApproval;
+  resolve: (approval: WorkflowApproval) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 10 * 60;
+
+/**
+ * Approval requests that pause a workflow until a person decides, the gate's timeout passes
+ * or the workflow is cancelled. Requests and their outcomes are stored and broadcast to the conversation.
+ */
+export class ApprovalService {
+  private pending = new Map<string, PendingApproval>();
+
+  constructor(
+    private prisma: PrismaClient,
+    private io: SocketIOServer
+  ) {}
+
+  /**
+   * Ask for approval and wait for the outcome. Resolves with the decided approval; never rejects
+   * on a decision, only when the request can't be stored.
+   */
+  async request(request: ApprovalRequest): Promise<WorkflowApproval> {
+    const timeoutSeconds = request.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+    const record = await this.prisma.workflowApproval.create({
+      data: {
+        conversationId: request.conversationId,
+        gate: request.gate,
+        target: request.target,
+        agentId: request.agentId || null,
+        title: request.title,
+        details: request.details ? JSON.stringify(request.details) : null,
+        stateSnapshot: request.stateSnapshot !== undefined ? JSON.stringify(request.stateSnapshot) : null,
+        expiresAt: new Date(Date.now() + timeoutSeconds * 1000),
+      },
+    });
+    const approval = this.toApproval(record);
+
+    if (request.signal?.aborted) {
+      return this.close(approval.id, 'cancelled', 'system', 'Workflow was cancelled');
+    }
+
+    const outcome = new Promise<WorkflowApproval>(resolve => {
+      // close() resolves the waiting workflow, even when the outcome can't be stored
+      const onAbort = () => {
+        this.close(approval.id, 'cancelled', 'system', 'Workflow was cancelled');
+      };
+      const timer = setTimeout(() => {
+        const status = request.onTimeout === 'approve' ? 'approved' : 'rejected';
+        this.close(approval.id, status, 'system', `No decision within ${timeoutSeconds}s`);
+      }, timeoutSeconds * 1000);
+
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(approval.id, {
+        approval,
+        resolve,
+        timer,
+        cleanup: () => request.signal?.removeEventListener('abort', onAbort),
+      });
+    });
+
+    console.log(`✋ [APPROVAL] Waiting for approval ${approval.id}: ${approval.title}`);
+    this.io.to(`conversation:${approval.conversationId}`).emit('approval-requested', approval);
+    return outcome;
+  }
+
+  /**
+   * Record a person's decision and let the waiting workflow continue. Returns null when the
+   * approval doesn't exist; throws ApprovalClosedError when it is no longer waiting for one.
+   */
+  async decide(approvalId: string, decision: ApprovalDecision): Promise<WorkflowApproval | null> {
+    const record = await this.prisma.workflowApproval.findUnique({ where: { id: approvalId } });
+    if (!record) {
+      return null;
+    }
+    // Not waiting once it is decided, timed out or its workflow cancelled, even before the record says so
+    if (record.status !== 'pending' || !this.pending.has(approvalId)) {
+      throw new ApprovalClosedError(`Approval ${approvalId} is no longer waiting for a decision (${record.status})`, approvalId);
+    }
+
+    return this.close(approvalId, decision.approved ? 'approved' : 'rejected', decision.approver, decision.comment);
+  }
+
+  /**
+   * Cancel requests left pending by a previous run of the server; their workflows are gone
+   */
+  async cancelOrphaned(): Promise<number> {
+    const { count } = await this.prisma.workflowApproval.updateMany({
+      where: { status: 'pending' },
+      data: { status: 'cancelled', approver: 'system', comment: 'The server restarted before a decision', decidedAt: new Date() },
+    });
+    return count;
+  }
+
+  async get(approvalId: string): Promise<WorkflowApproval | null> {
+    const record = await this.prisma.workflowApproval.findUnique({ where: { id: approvalId } });
+    return record ? this.toApproval(record) : null;
+  }
+
+  async list(conversationId: string, status?: ApprovalStatus): Promise<WorkflowApproval[]> {
+    const records = await this.prisma.workflowApproval.findMany({
+      where: { conversationId, ...(status && { status }) },
+      orderBy: { createdAt: 'asc' },
+    });
+    return records.map((record: any) => this.toApproval(record));
+  }
+
+  /**
+   * Helper: Store the outcome, wake the waiting workflow and tell the conversation
+   */
+  private async close(approvalId: string, status: ApprovalStatus, approver: string, comment?: string): Promise<WorkflowApproval> {
+    const waiter = this.pending.get(approvalId);
+    if (waiter) {
+      this.pending.delete(approvalId);
+      clearTimeout(waiter.timer);
+      waiter.cleanup();
+    }
+
+    let approval: WorkflowApproval;
+    try {
+      const record = await this.prisma.workflowApproval.update({
+        where: { id: approvalId },
+        data: { status, approver, comment: comment || null, decidedAt: new Date() },
+      });
+      approval = this.toApproval(record);
+    } catch (error: any) {
+      if (!waiter) throw error;
+      // The workflow still gets the outcome; only the record is stale
+      console.error(`❌ [APPROVAL] Failed to save the outcome of ${approvalId}:`, error.message);
+      approval = { ...waiter.approval, status, approver, comment: comment || null, decidedAt: new Date().toISOString() };
+    }
+
+    console.log(`✋ [APPROVAL] ${approval.title}: ${status} by ${approver}${comment ? ` (${comment})` : ''}`);
+    this.io.to(`conversation:${approval.conversationId}`).emit('approval-decided', approval);
+    waiter?.resolve(approval);
+    return approval;
+  }
+
+  private toApproval(record: any): WorkflowApproval {
+    return {
+      id: record.id,
+      conversationId: record.conversationId,
+      gate: record.gate,
+      target: record.target,
+      agentId: record.agentId,
+      title: record.title,
+      details: record.details ? JSON.parse(record.details) : null,
+      status: record.status,
+      approver: record.approver,
+      comment: record.comment,
+      expiresAt: record.expiresAt.toISOString(),
+      createdAt: record.createdAt.toISOString(),
+      decidedAt: record.decidedAt ? record.decidedAt.toISOString() : null,
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { BudgetItem } from './ContextBudgeter';
+import { ConversationService } from './ConversationService';
+import { MemoryService } from './MemoryService';
+
+export interface ContextAssemblerOptions {
+  historyMessages: number; // Most recent channel messages to consider
+  memoryEntries: number; // Memory entries to consider, most relevant first
+}
+
+const DEFAULT_OPTIONS: ContextAssemblerOptions = {
+  historyMessages: 20,
+  memoryEntries: 12,
+};
+
+// Bookkeeping fields of the memory templates; never worth prompt space
+const IGNORED_MEMORY_KEYS = new Set(['id', 'createdAt', 'updatedAt', 'lastModified']);
+
+const SUMMARY_LENGTH = 200;
+
+/**
+ * Context from before the current run as prompt items for the ContextBudgeter: the channel's
+ * recent messages and the project and conversation memory entries most related to the request.
+ * Items come oldest history first, then least relevant memory first, so those are evicted first.
+ */
+export class ContextAssembler {
+  private options: ContextAssemblerOptions;
+
+  constructor(
+    private conversationService: ConversationService,
+    private memoryService: MemoryService,
+    options: Partial<ContextAssemblerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Items for a run in the conversation. Messages in excludeMessageIds (the request itself and
+   * anything the run already has) are left out. Sources that fail to load are skipped.
+   */
+  async assemble(conversationId: string, request: string, excludeMessageIds: string[] = []): Promise<BudgetItem[]> {
+    const [history, memory] = await Promise.all([
+      this.getHistoryItems(conversationId, new Set(excludeMessageIds)),
+      this.getMemoryItems(conversationId, request),
+    ]);
+    return [...history, ...memory];
+  }
+
+  private async getHistoryItems(conversationId: string, excluded: Set<string>): Promise<BudgetItem[]> {
+    try {
+      const messages = await this.conversationService.getRecentMessages(conversationId, this.options.historyMessages + excluded.size);
+
+      return messages
+        .filter((message: any) => !excluded.has(message.id) && !message.metadata?.error && message.content?.trim())
+        .slice(-this.options.historyMessages)
+        .map((message: any) => {
+          const text = `${message.sender?.name || message.senderId}: ${message.content}`;
+          return {
+            id: `history:${message.id}`,
+            kind: 'history',
+            text,
+            priority: 0,
+            ...(text.length > SUMMARY_LENGTH && { summary: `${text.substring(0, SUMMARY_LENGTH)}... (truncated)` }),
+          };
+        });
+    } catch (error: any) {
+      console.warn(`⚠️ [CONTEXT] Could not load the history of ${conversationId}:`, error.message);
+      return [];
+    }
+  }
+
+  private async getMemoryItems(conversationId: string, request: string): Promise<BudgetItem[]> {
+    const entries: { id: string; text: string; score: number }[] = [];
+    const words = [...this.getWords(request)];
+
+    const addEntries = (scope: 'project' | 'conversation', memory: Record<string, any>) => {
+      for (const { path, value } of this.flattenMemory(memory)) {
+        const text = `${path}: ${value}`;
+        const textWords = this.getWords(text);
+        entries.push({
+          id: `memory:${scope}:${path}`,
+          text: `[${scope}] ${text}`,
+          score: words.filter(word => textWords.has(word)).length,
+        });
+      }
+    };
+
+    try {
+      const projectId = await this.conversationService.getProjectId(conversationId);
+      if (projectId) {
+        addEntries('project', await this.memoryService.getProjectMemory(projectId));
+      }
+    } catch (error: any) {
+      console.warn(`⚠️ [CONTEXT] Could not load project memory for ${conversationId}:`, error.message);
+    }
+    try {
+      addEntries('conversation', await this.memoryService.getConversationMemory(conversationId));
+    } catch (error: any) {
+      console.warn(`⚠️ [CONTEXT] Could not load conversation memory for ${conversationId}:`, error.message);
+    }
+
+    // Most relevant make the cut; Array.sort is stable so memory order breaks ties
+    return entries
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.options.memoryEntries)
+      .reverse()
+      .map(entry => ({ id: entry.id, kind: 'memory', text: entry.text, priority: 0 }));
+  }
+
+  /**
+   * Helper: Leaf values of a memory document with their dotted paths, skipping empty ones
+   */
+  private flattenMemory(value: any, path: string = ''): { path: string; value: string }[] {
+    if (value === null || value === undefined || value === '') {
+      return [];
+    }
+    if (typeof value !== 'object') {
+      return [{ path, value: String(value) }];
+    }
+
+    return Object.entries(value)
+      .filter(([key]) => !IGNORED_MEMORY_KEYS.has(key))
+      .flatMap(([key, child]) => this.flattenMemory(child, Array.isArray(value) ? `${path}[${key}]` : path ? `${path}.${key}` : key));
+  }
+
+  private getWords(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3));
+  }
+}
@@ -0,0 +1,118 @@
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Ollama truncates to num_ctx regardless of what the model supports
+const OLLAMA_DEFAULT_NUM_CTX = 4096;
+
+// Average characters per token by tokenizer family
+const CHARS_PER_TOKEN: [string, number][] = [
+  ['gpt', 4],
+  ['claude', 3.5],
+];
+const DEFAULT_CHARS_PER_TOKEN = 3.6;
+
+// Headroom for chat formatting and estimation error
+const SAFETY_MARGIN = 0.1;
+
+export interface BudgetTarget {
+  provider: string;
+  model: string;
+  contextWindow?: number; // Explicit override, e.g. from the agent config
+  modelContextWindow?: number; // What the model supports, from the model registry
+  maxOutputTokens?: number;
+}
+
+// One removable piece of a prompt. Lower priority goes first; within a priority, older items go first.
+export interface BudgetItem {
+  id: string;
+  kind: string;
+  text: string;
+  priority: number;
+  // Shorter stand-in used before the item is dropped entirely
+  summary?: string;
+}
+
+export interface ContextBudgetReport {
+  contextWindow: number;
+  reservedForOutput: number;
+  budget: number;
+  promptTokens: number;
+  kept: string[]; // IDs of the items that made it into the prompt, summarized ones included
+  summarized: { id: string; kind: string; fromTokens: number; toTokens: number }[];
+  dropped: { id: string; kind: string; tokens: number }[];
+  overBudget: boolean;
+}
+
+export class ContextBudgeter {
+  estimateTokens(text: string, model: string = ''): number {
+    const ratio = CHARS_PER_TOKEN.find(([prefix]) => model.startsWith(prefix))?.[1] || DEFAULT_CHARS_PER_TOKEN;
+    return Math.ceil(text.length / ratio);
+  }
+
+  getContextWindow(target: BudgetTarget): number {
+    if (target.contextWindow) {
+      return target.contextWindow;
+    }
+
+    const window = target.modelContextWindow || DEFAULT_CONTEXT_WINDOW;
+
+    return target.provider === 'ollama' ? Math.min(window, OLLAMA_DEFAULT_NUM_CTX) : window;
+  }
+
+  /**
+   * Fit items into what's left of the context window after the fixed prompt text
+   * and the reserved output. Summarizes oldest items first, then drops them.
+   */
+  fit(target: BudgetTarget, fixedText: string, items: BudgetItem[]): { items: BudgetItem[]; report: ContextBudgetReport } {
+    const contextWindow = this.getContextWindow(target);
+    const reservedForOutput = target.maxOutputTokens || 1000;
+    const budget = Math.max(0, Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - reservedForOutput);
+    const count = (text: string) => this.estimateTokens(text, target.model);
+
+    const kept = items.map(item => ({ ...item, tokens: count(item.text) }));
+    let promptTokens = count(fixedText) + kept.reduce((sum, item) => sum + item.tokens, 0);
+    const report: ContextBudgetReport = {
+      contextWindow,
+      reservedForOutput,
+      budget,
+      promptTokens,
+      kept: [],
+      summarized: [],
+      dropped: [],
+      overBudget: false,
+    };
+
+    // Lowest priority first; Array.sort is stable so original (oldest-first) order holds within a priority
+    const evictionOrder = [...kept].sort((a, b) => a.priority - b.priority);
+
+    for (const item of evictionOrder) {
+      if (promptTokens <= budget) break;
+      if (!item.summary) continue;
+
+      const summaryTokens = count(item.summary);
+      if (summaryTokens >= item.tokens) continue;
+
+      report.summarized.push({ id: item.id, kind: item.kind, fromTokens: item.tokens, toTokens: summaryTokens });
+      promptTokens -= item.tokens - summaryTokens;
+      item.text = item.summary;
+      item.tokens = summaryTokens;
+    }
+
+    const droppedIds = new Set<string>();
+    for (const item of evictionOrder) {
+      if (promptTokens <= budget) break;
+
+      report.dropped.push({ id: item.id, kind: item.kind, tokens: item.tokens });
+      promptTokens -= item.tokens;
+      droppedIds.add(item.id);
+    }
+
+    const fitted = kept
+      .filter(item => !droppedIds.has(item.id))
+      .map(({ tokens: _tokens, ...item }) => item);
+    report.promptTokens = promptTokens;
+    report.overBudget = promptTokens > budget;
+    report.kept = fitted.map(item => item.id);
+
+    return { items: fitted, report };
+  }
+}
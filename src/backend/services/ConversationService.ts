@@ -1,8 +1,11 @@
 import { PrismaClient } from '@prisma/client';
 import { Server as SocketIOServer } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
+import { QueuePolicy } from '../../shared/types';
 
 export interface CreateMessageDto {
+  // Defaults to a new UUID; set when clients already know the message under an id (e.g. a streamed reply)
+  id?: string;
   conversationId: string;
   senderId: string;
   content: string;
@@ -15,6 +18,7 @@ export interface CreateConversationDto {
   name: string;
   type: 'direct' | 'group';
   participants: string[]; // Agent IDs
+  teamId?: string; // Team that runs the full workflow; the default team when omitted
 }
 
 export interface MessageWithAgent {
@@ -210,6 +214,7 @@ export class ConversationService {
           name: data.name,
           type: data.type,
           participants: JSON.stringify(data.participants),
+          teamId: data.teamId || null,
         },
       });
 
@@ -324,6 +329,45 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Bind a published workflow template to a conversation, or unbind it with null.
+   * Returns false when the conversation doesn't exist.
+   */
+  async setWorkflowTemplate(conversationId: string, templateId: string | null): Promise<boolean> {
+    const { count } = await this.prisma.conversation.updateMany({
+      where: { id: conversationId },
+      data: { workflowTemplateId: templateId },
+    });
+    return count > 0;
+  }
+
+  async getProjectId(conversationId: string): Promise<string | null> {
+    const conversation = await this.prisma.conversation.findUnique({ where: { id: conversationId } });
+    return conversation?.projectId || null;
+  }
+
+  async getWorkflowTemplateId(conversationId: string): Promise<string | null> {
+    const conversation = await this.prisma.conversation.findUnique({ where: { id: conversationId } });
+    return conversation?.workflowTemplateId || null;
+  }
+
+  /**
+   * Set how messages sent while a workflow runs are handled, or null for the server default.
+   * Returns false when the conversation doesn't exist.
+   */
+  async setQueuePolicy(conversationId: string, policy: QueuePolicy | null): Promise<boolean> {
+    const { count } = await this.prisma.conversation.updateMany({
+      where: { id: conversationId },
+      data: { queuePolicy: policy },
+    });
+    return count > 0;
+  }
+
+  async getQueuePolicy(conversationId: string): Promise<QueuePolicy | null> {
+    const conversation = await this.prisma.conversation.findUnique({ where: { id: conversationId } });
+    return conversation?.queuePolicy || null;
+  }
+
   async deleteConversation(conversationId: string) {
     try {
       // Delete all messages first
@@ -512,7 +556,7 @@ export class ConversationService {
 
       const message = await this.prisma.message.create({
         data: {
-          id: uuidv4(),
+          id: data.id || uuidv4(),
           conversationId: actualConversationId,
           senderId: actualSenderId,
           content: data.content,
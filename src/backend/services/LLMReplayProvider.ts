@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ChatMessage, LLMConfig, LLMResponse } from './LLMService';
+
+export type LLMReplayMode = 'off' | 'record' | 'replay' | 'scripted';
+
+// A canned reply: fixed text, a sequence consumed in order (the last entry repeats),
+// or a function of the request
+export type ScriptedResponse =
+  | string
+  | string[]
+  | ((messages: ChatMessage[], config: LLMConfig) => string);
+
+export interface LLMReplayOptions {
+  mode: LLMReplayMode;
+  // Directory holding one JSON cassette per request (record/replay)
+  cassetteDir?: string;
+  // Replies keyed by agent role, then agent id, then '*' as the catch-all (scripted)
+  scripts?: Record<string, ScriptedResponse>;
+}
+
+export interface LLMCassette {
+  key: string;
+  recordedAt: string;
+  request: Record<string, any>;
+  response: LLMResponse;
+}
+
+export class LLMReplayMissError extends Error {
+  constructor(public key: string, public cassettePath: string) {
+    super(`No recorded LLM response for request ${key} (expected ${cassettePath}). Re-run in record mode to capture it.`);
+    this.name = 'LLMReplayMissError';
+  }
+}
+
+export class LLMReplayProvider {
+  private mode: LLMReplayMode = 'off';
+  private cassetteDir: string = path.resolve('cassettes');
+  private scripts: Record<string, ScriptedResponse> = {};
+  private scriptPositions = new Map<string, number>();
+
+  configure(options: LLMReplayOptions): void {
+    this.mode = options.mode;
+    this.cassetteDir = path.resolve(options.cassetteDir || this.cassetteDir);
+    this.scripts = options.scripts || {};
+    this.scriptPositions.clear();
+  }
+
+  getMode(): LLMReplayMode {
+    return this.mode;
+  }
+
+  /**
+   * Whether calls are answered here instead of by a real provider
+   */
+  isServing(): boolean {
+    return this.mode === 'replay' || this.mode === 'scripted';
+  }
+
+  isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  async respond(messages: ChatMessage[], config: LLMConfig): Promise<LLMResponse> {
+    if (this.mode === 'scripted') {
+      return {
+        content: this.nextScriptedReply(messages, config),
+        model: config.model,
+        provider: config.provider,
+        ...(config.endpoint && { endpoint: config.endpoint }),
+      };
+    }
+
+    const key = this.getRequestKey(messages, config);
+    const cassettePath = this.getCassettePath(key);
+    try {
+      const cassette: LLMCassette = JSON.parse(await fs.readFile(cassettePath, 'utf-8'));
+      return cassette.response;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new LLMReplayMissError(key, cassettePath);
+      }
+      throw error;
+    }
+  }
+
+  async record(messages: ChatMessage[], config: LLMConfig, response: LLMResponse): Promise<void> {
+    const key = this.getRequestKey(messages, config);
+    const cassette: LLMCassette = {
+      key,
+      recordedAt: new Date().toISOString(),
+      request: this.normalizeRequest(messages, config),
+      response: { ...response, attempts: undefined },
+    };
+
+    await fs.mkdir(this.cassetteDir, { recursive: true });
+    await fs.writeFile(this.getCassettePath(key), JSON.stringify(cassette, null, 2));
+  }
+
+  getRequestKey(messages: ChatMessage[], config: LLMConfig): string {
+    return createHash('sha256')
+      .update(JSON.stringify(this.normalizeRequest(messages, config)))
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  /**
+   * Everything that determines the reply, minus per-run noise: whitespace
+   * differences and generated tool call ids don't change the key
+   */
+  private normalizeRequest(messages: ChatMessage[], config: LLMConfig): Record<string, any> {
+    const normalizeText = (text?: string) => (text || '').replace(/\s+/g, ' ').trim();
+
+    return {
+      provider: config.provider,
+      endpoint: config.endpoint || null,
+      model: config.model || null,
+      temperature: config.temperature ?? null,
+      maxTokens: config.maxTokens ?? null,
+      systemPrompt: normalizeText(config.systemPrompt),
+      tools: (config.tools || []).map(tool => tool.name).sort(),
+      responseFormat: config.responseFormat?.name || null,
+      messages: messages.map(message => ({
+        role: message.role,
+        content: normalizeText(message.content),
+        ...(message.name && { name: message.name }),
+        ...(message.toolCalls?.length && {
+          toolCalls: message.toolCalls.map(call => ({ name: call.name, arguments: call.arguments })),
+        }),
+      })),
+    };
+  }
+
+  private getCassettePath(key: string): string {
+    return path.join(this.cassetteDir, `${key}.json`);
+  }
+
+  private nextScriptedReply(messages: ChatMessage[], config: LLMConfig): string {
+    const candidates = [config.context?.agentRole, config.context?.agentId, '*'];
+    const scriptKey = candidates.find((candidate): candidate is string => !!candidate && candidate in this.scripts);
+    if (!scriptKey) {
+      throw new Error(`No scripted LLM response for role "${config.context?.agentRole || 'unknown'}"`);
+    }
+
+    const script = this.scripts[scriptKey];
+    if (typeof script === 'function') {
+      return script(messages, config);
+    }
+    if (typeof script === 'string') {
+      return script;
+    }
+
+    const position = this.scriptPositions.get(scriptKey) || 0;
+    this.scriptPositions.set(scriptKey, position + 1);
+    return script[Math.min(position, script.length - 1)];
+  }
+}
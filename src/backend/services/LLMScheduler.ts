@@ -0,0 +1,252 @@
+import { LLMPriority, LLMQueueStats, ProviderLimits } from '../../shared/types';
+
+export interface ScheduleOptions {
+  conversationId?: string;
+  priority?: LLMPriority;
+  signal?: AbortSignal;
+}
+
+interface QueuedRequest {
+  enqueuedAt: number;
+  start: () => void;
+}
+
+interface ProviderQueue {
+  limits: ProviderLimits;
+  active: number;
+  // Per priority, one FIFO per conversation; Map order is the round-robin order
+  lanes: Record<LLMPriority, Map<string, QueuedRequest[]>>;
+  startTimes: number[]; // Start times within the last minute, for requestsPerMinute
+  recentWaits: number[];
+  wakeTimer?: NodeJS.Timeout;
+}
+
+const PRIORITIES: LLMPriority[] = ['interactive', 'normal', 'background'];
+
+// Local model servers handle one generation at a time well; hosted APIs take more
+const DEFAULT_LIMITS: Record<string, ProviderLimits> = {
+  ollama: { concurrency: 1 },
+  'openai-compatible': { concurrency: 1 },
+  openai: { concurrency: 8 },
+  anthropic: { concurrency: 4 },
+};
+
+const RATE_WINDOW_MS = 60 * 1000;
+const RECENT_WAIT_SAMPLES = 50;
+const NO_CONVERSATION = '';
+
+/**
+ * Per-provider request queue: caps concurrent requests and requests per minute,
+ * serves higher priorities first and alternates between conversations within a priority
+ */
+export class LLMScheduler {
+  private queues = new Map<string, ProviderQueue>();
+  private limits = new Map<string, ProviderLimits>();
+  private listener: ((stats: LLMQueueStats[]) => void) | null = null;
+
+  /**
+   * Limits for a provider key: a provider type, or 'openai-compatible:<endpoint>' for one endpoint
+   */
+  setLimits(provider: string, limits: ProviderLimits): void {
+    const normalized = {
+      concurrency: Math.max(1, Math.floor(limits.concurrency)),
+      ...(limits.requestsPerMinute && { requestsPerMinute: Math.max(1, Math.floor(limits.requestsPerMinute)) }),
+    };
+    this.limits.set(provider, normalized);
+
+    for (const [key, queue] of this.queues) {
+      if (key === provider || key.startsWith(`${provider}:`)) {
+        queue.limits = this.getLimits(key);
+        this.pump(queue);
+      }
+    }
+    this.notify();
+  }
+
+  getLimits(provider: string): ProviderLimits {
+    const type = provider.split(':')[0];
+    return this.limits.get(provider) || this.limits.get(type) || DEFAULT_LIMITS[type] || { concurrency: 1 };
+  }
+
+  /**
+   * Receive queue stats whenever a request is queued, starts or finishes
+   */
+  setListener(listener: (stats: LLMQueueStats[]) => void): void {
+    this.listener = listener;
+  }
+
+  /**
+   * Run a request once the provider has capacity. Rejects with an AbortError if the
+   * signal fires while the request is still queued.
+   */
+  run<T>(provider: string, options: ScheduleOptions, request: () => Promise<T>): Promise<T> {
+    if (options.signal?.aborted) {
+      return Promise.reject(this.createAbortError());
+    }
+
+    const queue = this.getQueue(provider);
+    const priority = options.priority || 'normal';
+    const lane = queue.lanes[priority];
+    const conversationKey = options.conversationId || NO_CONVERSATION;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const requests = lane.get(conversationKey);
+        const index = requests ? requests.indexOf(queued) : -1;
+        if (index < 0) return;
+
+        requests!.splice(index, 1);
+        if (requests!.length === 0) lane.delete(conversationKey);
+        reject(this.createAbortError());
+        this.notify();
+      };
+
+      const queued: QueuedRequest = {
+        enqueuedAt: Date.now(),
+        start: () => {
+          options.signal?.removeEventListener('abort', onAbort);
+          queue.active++;
+          queue.startTimes.push(Date.now());
+          queue.recentWaits.push(Date.now() - queued.enqueuedAt);
+          if (queue.recentWaits.length > RECENT_WAIT_SAMPLES) queue.recentWaits.shift();
+
+          // A request that throws before returning its promise still frees the slot
+          Promise.resolve()
+            .then(request)
+            .then(resolve, reject)
+            .finally(() => {
+              queue.active--;
+              this.pump(queue);
+              this.notify();
+            });
+        },
+      };
+
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      lane.set(conversationKey, [...(lane.get(conversationKey) || []), queued]);
+      this.pump(queue);
+      this.notify();
+    });
+  }
+
+  getStats(): LLMQueueStats[] {
+    const now = Date.now();
+
+    return Array.from(this.queues.entries()).map(([provider, queue]) => {
+      const queuedByPriority = {} as Record<LLMPriority, number>;
+      let oldest = now;
+      for (const priority of PRIORITIES) {
+        queuedByPriority[priority] = 0;
+        for (const requests of queue.lanes[priority].values()) {
+          queuedByPriority[priority] += requests.length;
+          oldest = Math.min(oldest, requests[0]?.enqueuedAt ?? now);
+        }
+      }
+
+      return {
+        provider,
+        limits: queue.limits,
+        active: queue.active,
+        queued: PRIORITIES.reduce((sum, priority) => sum + queuedByPriority[priority], 0),
+        queuedByPriority,
+        requestsLastMinute: queue.startTimes.filter(time => now - time < RATE_WINDOW_MS).length,
+        averageWaitMs: queue.recentWaits.length > 0
+          ? Math.round(queue.recentWaits.reduce((sum, wait) => sum + wait, 0) / queue.recentWaits.length)
+          : 0,
+        maxWaitMs: Math.max(0, ...queue.recentWaits),
+        oldestQueuedMs: now - oldest,
+      };
+    });
+  }
+
+  private getQueue(provider: string): ProviderQueue {
+    let queue = this.queues.get(provider);
+    if (!queue) {
+      queue = {
+        limits: this.getLimits(provider),
+        active: 0,
+        lanes: { interactive: new Map(), normal: new Map(), background: new Map() },
+        startTimes: [],
+        recentWaits: [],
+      };
+      this.queues.set(provider, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * Start queued requests while the provider has capacity
+   */
+  private pump(queue: ProviderQueue): void {
+    while (queue.active < queue.limits.concurrency) {
+      const waitMs = this.getRateLimitWait(queue);
+      if (waitMs > 0) {
+        if (!queue.wakeTimer && this.hasQueued(queue)) {
+          queue.wakeTimer = setTimeout(() => {
+            queue.wakeTimer = undefined;
+            this.pump(queue);
+          }, waitMs);
+        }
+        return;
+      }
+
+      const next = this.takeNext(queue);
+      if (!next) return;
+      next.start();
+    }
+  }
+
+  private getRateLimitWait(queue: ProviderQueue): number {
+    const now = Date.now();
+    while (queue.startTimes.length > 0 && now - queue.startTimes[0] >= RATE_WINDOW_MS) {
+      queue.startTimes.shift();
+    }
+
+    const limit = queue.limits.requestsPerMinute;
+    if (!limit || queue.startTimes.length < limit) {
+      return 0;
+    }
+    return queue.startTimes[queue.startTimes.length - limit] + RATE_WINDOW_MS - now;
+  }
+
+  /**
+   * Highest priority first; within a priority, the conversation at the head of the
+   * rotation goes next and moves to the back
+   */
+  private takeNext(queue: ProviderQueue): QueuedRequest | undefined {
+    for (const priority of PRIORITIES) {
+      const lane = queue.lanes[priority];
+      const first = lane.entries().next().value;
+      if (!first) continue;
+
+      const [conversationKey, requests] = first;
+      const next = requests.shift();
+      lane.delete(conversationKey);
+      if (requests.length > 0) {
+        lane.set(conversationKey, requests);
+      }
+      return next;
+    }
+    return undefined;
+  }
+
+  private hasQueued(queue: ProviderQueue): boolean {
+    return PRIORITIES.some(priority => queue.lanes[priority].size > 0);
+  }
+
+  private notify(): void {
+    if (this.listener) {
+      try {
+        this.listener(this.getStats());
+      } catch (error: any) {
+        console.warn('⚠️ LLM queue listener failed:', error.message);
+      }
+    }
+  }
+
+  private createAbortError(): Error {
+    const error = new Error('LLM request was cancelled while queued');
+    error.name = 'AbortError';
+    return error;
+  }
+}
@@ -1,15 +1,101 @@
   import OpenAI from 'openai';
   import Anthropic from '@anthropic-ai/sdk';
-  import { Ollama } from 'ollama';
+  import { Ollama, ShowResponse } from 'ollama';
+  import { promises as fs } from 'fs';
+  import { createHash } from 'crypto';
+  import { LLMReplayProvider, LLMReplayOptions, LLMReplayMode } from './LLMReplayProvider';
+  import { LLMScheduler } from './LLMScheduler';
+  import { LLMPriority, LLMQueueStats, ProviderLimits } from '../../shared/types';
 
   export interface LLMConfig {
-    provider: 'openai' | 'anthropic' | 'ollama';
+    provider: 'openai' | 'anthropic' | 'ollama' | 'openai-compatible';
     model: string;
     temperature?: number;
     maxTokens?: number;
+    // Context size to request where the provider lets us choose (Ollama num_ctx)
+    contextWindow?: number;
     systemPrompt?: string;
     apiKey?: string;
     baseUrl?: string;
+    // For 'openai-compatible': name of a registered endpoint (used when baseUrl isn't given)
+    endpoint?: string;
+    tools?: ToolDefinition[];
+    // Who the call is made for; attached to usage records
+    context?: LLMCallContext;
+    // Aborts the request (and any pending retries) when signalled
+    signal?: AbortSignal;
+    // Constrain the reply to JSON matching this schema, using each provider's native mechanism
+    responseFormat?: ResponseFormat;
+    // Place in the provider's request queue; defaults to 'normal'
+    priority?: LLMPriority;
+  }
+
+  export interface ResponseFormat {
+    name: string;
+    schema: Record<string, any>;
+  }
+
+  export interface LLMCallContext {
+    agentId?: string;
+    agentRole?: string;
+    conversationId?: string;
+    projectId?: string;
+  }
+
+  export interface LLMUsageEntry {
+    provider: string;
+    model: string;
+    endpoint?: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    latencyMs: number;
+    streamed: boolean;
+    context: LLMCallContext;
+  }
+
+  // Connection settings for one provider, from the environment or the settings store
+  export interface ProviderConnectionConfig {
+    type: 'openai' | 'anthropic' | 'ollama' | 'openai-compatible';
+    // Endpoint name, required for 'openai-compatible'
+    name?: string;
+    apiKey?: string;
+    baseUrl?: string;
+    models?: string[];
+  }
+
+  // A local or hosted server speaking the OpenAI chat completions protocol (llama.cpp, vLLM, LM Studio, ...)
+  export interface OpenAICompatibleEndpointConfig {
+    name: string;
+    baseUrl: string;
+    apiKey?: string;
+    models?: string[];
+  }
+
+  // Provider-neutral tool definition; parameters is a JSON schema object
+  export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  }
+
+  export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+  }
+
+  export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+  export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+    // Speaker name, used to tell different users/agents apart within the same role
+    name?: string;
+    // For role 'tool': the id of the tool call this message answers
+    toolCallId?: string;
+    // For role 'assistant': tool calls the model requested in this turn
+    toolCalls?: ToolCall[];
   }
 
   export interface LLMResponse {
@@ -21,131 +107,705 @@
     };
     model: string;
     provider: string;
+    endpoint?: string;
+    toolCalls?: ToolCall[];
+    // Failed attempts (retries and fallbacks) before this response was produced
+    attempts?: LLMAttempt[];
+  }
+
+  export interface EmbeddingConfig {
+    provider: 'openai' | 'ollama' | 'openai-compatible';
+    model?: string;
+    endpoint?: string;
+    apiKey?: string;
+    baseUrl?: string;
+    // Texts sent per provider request
+    batchSize?: number;
+    signal?: AbortSignal;
+    context?: LLMCallContext;
+    priority?: LLMPriority;
+  }
+
+  export interface EmbeddingResponse {
+    embeddings: number[][];
+    model: string;
+    provider: string;
+    usage?: {
+      promptTokens: number;
+      totalTokens: number;
+    };
+    // How many of the texts were served from the cache
+    cached: number;
+  }
+
+  export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+  }
+
+  export interface RetryPolicy {
+    maxRetries: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    backoffMultiplier: number;
+    // Fraction of each delay that is randomized (0 = no jitter, 1 = full jitter)
+    jitter: number;
+  }
+
+  export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 2,
+    initialDelayMs: 500,
+    maxDelayMs: 8000,
+    backoffMultiplier: 2,
+    jitter: 0.5,
+  };
+
+  export interface LLMAttempt {
+    provider: string;
+    model: string;
+    endpoint?: string;
+    error: string;
+    transient: boolean;
+  }
+
+  export class LLMFallbackError extends Error {
+    constructor(public attempts: LLMAttempt[]) {
+      super(`All LLM providers failed: ${attempts.map(a => `${a.provider}:${a.model} (${a.error})`).join('; ') || 'no providers configured'}`);
+      this.name = 'LLMFallbackError';
+    }
+  }
+
+  export class LLMCancelledError extends Error {
+    constructor(message: string = 'LLM call was cancelled') {
+      super(message);
+      this.name = 'LLMCancelledError';
+    }
   }
 
   export class LLMService {
     private openai: OpenAI | null = null;
     private anthropic: Anthropic | null = null;
     private ollama: Ollama | null = null;
+    private ollamaHost: string = 'http://localhost:11434';
     private providers: Map<string, any> = new Map();
+    private compatibleEndpoints: Map<string, OpenAICompatibleEndpointConfig & { client: OpenAI }> = new Map();
+    private adHocClients: Map<string, OpenAI> = new Map();
+    private usageRecorder: ((entry: LLMUsageEntry) => Promise<void> | void) | null = null;
+    private replay = new LLMReplayProvider();
+    private scheduler = new LLMScheduler();
+    private replayReady: Promise<void> = Promise.resolve();
+    private embeddingCache: Map<string, number[]> = new Map();
+    private readonly maxCachedEmbeddings = 10000;
 
     constructor() {
       this.initializeProviders();
     }
 
     private initializeProviders() {
-      // Initialize OpenAI
-      if (process.env.OPENAI_API_KEY) {
-        this.openai = new OpenAI({
-          apiKey: process.env.OPENAI_API_KEY,
-        });
-        this.providers.set('openai', this.openai);
-        console.log('✅ OpenAI provider initialized');
+      // Environment variables provide the defaults; stored settings can override them later
+      this.resetProvider('openai');
+      this.resetProvider('anthropic');
+      this.resetProvider('ollama');
+
+      // Initialize OpenAI-compatible endpoints, e.g.
+      // OPENAI_COMPATIBLE_ENDPOINTS='[{"name":"lmstudio","baseUrl":"http://localhost:1234/v1","models":["qwen2.5-7b"]}]'
+      if (process.env.OPENAI_COMPATIBLE_ENDPOINTS) {
+        try {
+          const endpoints: OpenAICompatibleEndpointConfig[] = JSON.parse(process.env.OPENAI_COMPATIBLE_ENDPOINTS);
+          endpoints.forEach(endpoint => this.registerOpenAICompatibleEndpoint(endpoint));
+        } catch (error: any) {
+          console.error('❌ Invalid OPENAI_COMPATIBLE_ENDPOINTS:', error.message);
+        }
       }
 
-      // Initialize Anthropic
-      if (process.env.ANTHROPIC_API_KEY) {
-        this.anthropic = new Anthropic({
-          apiKey: process.env.ANTHROPIC_API_KEY,
-        });
-        this.providers.set('anthropic', this.anthropic);
-        console.log('✅ Anthropic provider initialized');
+      // Per-provider request limits, e.g.
+      // LLM_PROVIDER_LIMITS='{"ollama":{"concurrency":2},"openai":{"concurrency":4,"requestsPerMinute":60}}'
+      if (process.env.LLM_PROVIDER_LIMITS) {
+        try {
+          const limits: Record<string, ProviderLimits> = JSON.parse(process.env.LLM_PROVIDER_LIMITS);
+          Object.entries(limits).forEach(([provider, providerLimits]) => this.scheduler.setLimits(provider, providerLimits));
+        } catch (error: any) {
+          console.error('❌ Invalid LLM_PROVIDER_LIMITS:', error.message);
+        }
       }
 
-      // Initialize Ollama (local)
-      const ollamaHost = process.env.OLLAMA_HOST || 'http://localhost:11434';
-      this.ollama = new Ollama({ host: ollamaHost });
-      this.providers.set('ollama', this.ollama);
-      console.log('✅ Ollama provider initialized at', ollamaHost);
+      // Replay mode is applied before the first call could be made
+      this.replayReady = this.initializeReplayFromEnv();
+    }
+
+    /**
+     * Record, replay or script LLM responses so workflows can run without a model server.
+     * Also configurable through LLM_REPLAY_MODE, LLM_CASSETTE_DIR and LLM_REPLAY_SCRIPT.
+     */
+    setReplayMode(options: LLMReplayOptions): void {
+      this.replay.configure(options);
+      console.log(`📼 LLM replay mode: ${options.mode}`);
+    }
+
+    getReplayMode(): LLMReplayMode {
+      return this.replay.getMode();
+    }
+
+    private async initializeReplayFromEnv(): Promise<void> {
+      const mode = process.env.LLM_REPLAY_MODE as LLMReplayMode | undefined;
+      if (!mode || mode === 'off') return;
+
+      try {
+        const scripts = process.env.LLM_REPLAY_SCRIPT
+          ? JSON.parse(await fs.readFile(process.env.LLM_REPLAY_SCRIPT, 'utf-8'))
+          : undefined;
+        this.setReplayMode({ mode, cassetteDir: process.env.LLM_CASSETTE_DIR, scripts });
+      } catch (error: any) {
+        console.error('❌ Invalid LLM replay configuration:', error.message);
+      }
+    }
+
+    /**
+     * Cap concurrent requests and requests per minute for a provider type,
+     * or for one endpoint as 'openai-compatible:<name>'
+     */
+    setProviderLimits(provider: string, limits: ProviderLimits): void {
+      this.scheduler.setLimits(provider, limits);
+      console.log(`🚦 LLM limits for ${provider}:`, this.scheduler.getLimits(provider));
+    }
+
+    getProviderLimits(provider: string): ProviderLimits {
+      return this.scheduler.getLimits(provider);
+    }
+
+    getQueueStats(): LLMQueueStats[] {
+      return this.scheduler.getStats();
+    }
+
+    /**
+     * Receive queue stats whenever a request is queued, starts or finishes
+     */
+    setQueueListener(listener: (stats: LLMQueueStats[]) => void): void {
+      this.scheduler.setListener(listener);
+    }
+
+    /**
+     * Queue a provider request behind others for the same provider (or endpoint)
+     */
+    private schedule<T>(
+      config: { provider: string; endpoint?: string; priority?: LLMPriority; signal?: AbortSignal; context?: LLMCallContext },
+      request: () => Promise<T>
+    ): Promise<T> {
+      const key = config.provider === 'openai-compatible' && config.endpoint ? `openai-compatible:${config.endpoint}` : config.provider;
+      return this.scheduler.run(key, {
+        conversationId: config.context?.conversationId,
+        priority: config.priority,
+        signal: config.signal,
+      }, request);
+    }
+
+    /**
+     * Receive a usage entry for every completed LLM call (blocking or streaming)
+     */
+    setUsageRecorder(recorder: (entry: LLMUsageEntry) => Promise<void> | void): void {
+      this.usageRecorder = recorder;
+    }
+
+    private recordUsage(config: LLMConfig, response: LLMResponse, latencyMs: number, streamed: boolean): void {
+      if (!this.usageRecorder) return;
+
+      const entry: LLMUsageEntry = {
+        provider: response.provider,
+        model: response.model || config.model,
+        endpoint: response.endpoint,
+        promptTokens: response.usage?.promptTokens || 0,
+        completionTokens: response.usage?.completionTokens || 0,
+        totalTokens: response.usage?.totalTokens || 0,
+        latencyMs,
+        streamed,
+        context: config.context || {},
+      };
+
+      // Usage recording must never fail the LLM call itself
+      Promise.resolve()
+        .then(() => this.usageRecorder?.(entry))
+        .catch(error => console.error('Failed to record LLM usage:', error));
+    }
+
+    // ===== Provider configuration =====
+
+    /**
+     * (Re)create a provider client at runtime, replacing any existing one
+     */
+    configureProvider(settings: ProviderConnectionConfig): void {
+      switch (settings.type) {
+        case 'openai':
+          if (!settings.apiKey) throw new Error('OpenAI requires an API key');
+          this.openai = new OpenAI({ apiKey: settings.apiKey, baseURL: settings.baseUrl || undefined });
+          this.providers.set('openai', this.openai);
+          console.log('✅ OpenAI provider initialized');
+          break;
+
+        case 'anthropic':
+          if (!settings.apiKey) throw new Error('Anthropic requires an API key');
+          this.anthropic = new Anthropic({ apiKey: settings.apiKey, baseURL: settings.baseUrl || undefined });
+          this.providers.set('anthropic', this.anthropic);
+          console.log('✅ Anthropic provider initialized');
+          break;
+
+        case 'ollama':
+          this.ollamaHost = settings.baseUrl || 'http://localhost:11434';
+          this.ollama = new Ollama({ host: this.ollamaHost });
+          this.providers.set('ollama', this.ollama);
+          console.log('✅ Ollama provider initialized at', this.ollamaHost);
+          break;
+
+        case 'openai-compatible':
+          if (!settings.name || !settings.baseUrl) throw new Error('OpenAI-compatible endpoints require a name and baseUrl');
+          this.registerOpenAICompatibleEndpoint({
+            name: settings.name,
+            baseUrl: settings.baseUrl,
+            apiKey: settings.apiKey,
+            models: settings.models,
+          });
+          break;
+
+        default:
+          throw new Error(`Unsupported LLM provider: ${settings.type}`);
+      }
+    }
+
+    /**
+     * Drop runtime settings for a provider and fall back to its environment configuration, if any
+     */
+    resetProvider(type: ProviderConnectionConfig['type'], name?: string): void {
+      switch (type) {
+        case 'openai':
+          this.openai = null;
+          this.providers.delete('openai');
+          if (process.env.OPENAI_API_KEY) {
+            this.configureProvider({ type, apiKey: process.env.OPENAI_API_KEY });
+          }
+          break;
+
+        case 'anthropic':
+          this.anthropic = null;
+          this.providers.delete('anthropic');
+          if (process.env.ANTHROPIC_API_KEY) {
+            this.configureProvider({ type, apiKey: process.env.ANTHROPIC_API_KEY });
+          }
+          break;
+
+        case 'ollama':
+          // Ollama is always available at its default local address
+          this.configureProvider({ type, baseUrl: process.env.OLLAMA_HOST });
+          break;
+
+        case 'openai-compatible':
+          if (name) this.removeOpenAICompatibleEndpoint(name);
+          break;
+      }
+    }
+
+    // ===== OpenAI-compatible endpoints =====
+
+    registerOpenAICompatibleEndpoint(endpoint: OpenAICompatibleEndpointConfig): void {
+      if (!endpoint.name || !endpoint.baseUrl) {
+        throw new Error('OpenAI-compatible endpoints require a name and baseUrl');
+      }
+
+      this.compatibleEndpoints.set(endpoint.name, {
+        ...endpoint,
+        models: endpoint.models || [],
+        client: new OpenAI({
+          baseURL: endpoint.baseUrl,
+          // Local servers usually ignore the key, but the client requires one
+          apiKey: endpoint.apiKey || 'not-needed',
+        }),
+      });
+      this.providers.set('openai-compatible', this.compatibleEndpoints);
+      console.log(`✅ OpenAI-compatible endpoint "${endpoint.name}" initialized at`, endpoint.baseUrl);
+    }
+
+    removeOpenAICompatibleEndpoint(name: string): boolean {
+      const removed = this.compatibleEndpoints.delete(name);
+      if (this.compatibleEndpoints.size === 0) {
+        this.providers.delete('openai-compatible');
+      }
+      return removed;
+    }
+
+    getOpenAICompatibleEndpoints(): OpenAICompatibleEndpointConfig[] {
+      return Array.from(this.compatibleEndpoints.values()).map(({ name, baseUrl, models }) => ({
+        name,
+        baseUrl,
+        models,
+      }));
+    }
+
+    /**
+     * Resolve the OpenAI client for a config: a registered endpoint, an explicit
+     * baseUrl/apiKey from the config, or the default OpenAI provider
+     */
+    private getOpenAIClient(config: LLMConfig): OpenAI {
+      if (config.provider === 'openai-compatible' && !config.baseUrl) {
+        const endpoint = config.endpoint ? this.compatibleEndpoints.get(config.endpoint) : undefined;
+        if (!endpoint) {
+          throw new Error(`OpenAI-compatible endpoint "${config.endpoint || ''}" is not registered`);
+        }
+        return endpoint.client;
+      }
+
+      if (config.baseUrl || config.apiKey) {
+        const key = `${config.baseUrl || ''}|${config.apiKey || ''}`;
+        let client = this.adHocClients.get(key);
+        if (!client) {
+          client = new OpenAI({
+            baseURL: config.baseUrl,
+            apiKey: config.apiKey || process.env.OPENAI_API_KEY || 'not-needed',
+          });
+          this.adHocClients.set(key, client);
+        }
+        return client;
+      }
+
+      if (!this.openai) {
+        throw new Error('OpenAI provider not initialized. Please set OPENAI_API_KEY');
+      }
+      return this.openai;
+    }
+
+    /**
+     * The Ollama client can only abort all of its requests at once,
+     * so cancellable calls get their own client bound to the signal
+     */
+    private getOllamaClient(signal?: AbortSignal): Ollama {
+      if (!this.ollama) {
+        throw new Error('Ollama provider not initialized');
+      }
+      if (!signal) {
+        return this.ollama;
+      }
+      return new Ollama({
+        host: this.ollamaHost,
+        fetch: (input, init) => fetch(input, { ...init, signal }),
+      });
     }
 
     async generateCompletion(
       prompt: string,
       config: LLMConfig
     ): Promise<LLMResponse> {
-      const { provider, model, temperature = 0.7, maxTokens = 1000, systemPrompt } = config;
+      return this.generateChatCompletion([{ role: 'user', content: prompt }], config);
+    }
+
+    async generateChatCompletion(
+      messages: ChatMessage[],
+      config: LLMConfig
+    ): Promise<LLMResponse> {
+      const { provider, model, temperature = 0.7, maxTokens = 1000, systemPrompt, tools, signal, responseFormat } = config;
+      let startTime = Date.now();
 
       try {
-        switch (provider) {
-          case 'openai':
-            return await this.generateOpenAICompletion(prompt, model, temperature, maxTokens, systemPrompt);
-          
-          case 'anthropic':
-            return await this.generateAnthropicCompletion(prompt, model, temperature, maxTokens, systemPrompt);
-          
-          case 'ollama':
-            return await this.generateOllamaCompletion(prompt, model, temperature, maxTokens, systemPrompt);
-          
-          default:
-            throw new Error(`Unsupported LLM provider: ${provider}`);
+        this.throwIfCancelled(signal);
+        await this.replayReady;
+        let response: LLMResponse;
+
+        if (this.replay.isServing()) {
+          response = await this.replay.respond(messages, config);
+          this.recordUsage(config, response, Date.now() - startTime, false);
+          return response;
         }
+
+        response = await this.schedule(config, async () => {
+          // Latency excludes time spent waiting in the queue
+          startTime = Date.now();
+          switch (provider) {
+            case 'openai':
+            case 'openai-compatible':
+              return this.generateOpenAICompletion(this.getOpenAIClient(config), config, messages, model, temperature, maxTokens, systemPrompt, tools);
+            
+            case 'anthropic':
+              return this.generateAnthropicCompletion(messages, model, temperature, maxTokens, systemPrompt, tools, signal, responseFormat);
+            
+            case 'ollama':
+              return this.generateOllamaCompletion(messages, model, temperature, maxTokens, systemPrompt, tools, signal, responseFormat, config.contextWindow);
+            
+            default:
+              throw new Error(`Unsupported LLM provider: ${provider}`);
+          }
+        });
+
+        if (this.replay.isRecording()) {
+          await this.replay.record(messages, config, response);
+        }
+
+        this.recordUsage(config, response, Date.now() - startTime, false);
+        return response;
       } catch (error) {
+        if (this.isCancellation(error, signal)) {
+          throw new LLMCancelledError();
+        }
         console.error(`Error generating completion with ${provider}:`, error);
         throw error;
       }
     }
 
+    // ===== Message mapping =====
+
+    private toOpenAIMessages(messages: ChatMessage[], systemPrompt?: string): any[] {
+      const mapped: any[] = [];
+      if (systemPrompt) {
+        mapped.push({ role: 'system', content: systemPrompt });
+      }
+
+      for (const message of messages) {
+        if (message.role === 'tool') {
+          mapped.push(message.toolCallId
+            ? { role: 'tool', tool_call_id: message.toolCallId, content: message.content }
+            : { role: 'user', content: this.withSpeakerName({ ...message, name: `tool:${message.name || 'result'}` }) });
+          continue;
+        }
+
+        mapped.push({
+          role: message.role,
+          content: message.content,
+          ...(message.name && { name: this.toOpenAIName(message.name) }),
+          ...(message.toolCalls?.length && {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          }),
+        });
+      }
+
+      return mapped;
+    }
+
+    private toAnthropicMessages(messages: ChatMessage[], systemPrompt?: string): { system?: string; messages: any[] } {
+      // Anthropic takes system text as a separate parameter and requires alternating user/assistant turns
+      const systemParts = systemPrompt ? [systemPrompt] : [];
+      const turns: { role: 'user' | 'assistant'; content: any[] }[] = [];
+
+      for (const message of messages) {
+        if (message.role === 'system') {
+          systemParts.push(message.content);
+          continue;
+        }
+
+        const role = message.role === 'assistant' ? 'assistant' : 'user';
+        const blocks: any[] = message.role === 'tool' && message.toolCallId
+          ? [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }]
+          : message.content ? [{ type: 'text', text: this.withSpeakerName(message) }] : [];
+
+        for (const call of message.toolCalls || []) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+
+        const previous = turns[turns.length - 1];
+        if (previous && previous.role === role) {
+          previous.content.push(...blocks);
+        } else {
+          turns.push({ role, content: blocks });
+        }
+      }
+
+      // The first turn must come from the user
+      if (turns.length === 0 || turns[0].role !== 'user') {
+        turns.unshift({ role: 'user', content: [{ type: 'text', text: '(conversation start)' }] });
+      }
+
+      return {
+        system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+        messages: turns,
+      };
+    }
+
+    private toOllamaMessages(messages: ChatMessage[], systemPrompt?: string): any[] {
+      return [
+        ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+        ...messages.map(message => ({
+          role: message.role,
+          content: message.role === 'system' ? message.content : this.withSpeakerName(message),
+          ...(message.toolCalls?.length && {
+            tool_calls: message.toolCalls.map(call => ({
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          }),
+        })),
+      ];
+    }
+
+    private getOllamaUsage(response: { prompt_eval_count?: number; eval_count?: number }): LLMResponse['usage'] {
+      const promptTokens = response.prompt_eval_count || 0;
+      const completionTokens = response.eval_count || 0;
+      return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    }
+
+    // ===== Tool mapping =====
+
+    private toOpenAITools(tools: ToolDefinition[]): any[] {
+      return tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }));
+    }
+
+    private toAnthropicTools(tools: ToolDefinition[]): any[] {
+      return tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+    }
+
+    private parseToolArguments(raw: unknown): Record<string, any> {
+      if (typeof raw !== 'string') {
+        return (raw as Record<string, any>) || {};
+      }
+      try {
+        return JSON.parse(raw || '{}');
+      } catch {
+        // Keep malformed arguments visible to the tool instead of dropping the call
+        return { _raw: raw };
+      }
+    }
+
+    /**
+     * Providers without a native speaker name field get the name prefixed to the content
+     */
+    private withSpeakerName(message: ChatMessage): string {
+      if (!message.name || message.role === 'assistant') {
+        return message.content;
+      }
+      return `[${message.name}]: ${message.content}`;
+    }
+
+    private toOpenAIName(name: string): string {
+      return name.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 64);
+    }
+
+    private toOpenAIResponseFormat(responseFormat: ResponseFormat) {
+      return {
+        type: 'json_schema' as const,
+        json_schema: { name: responseFormat.name, schema: responseFormat.schema, strict: false },
+      };
+    }
+
+    /**
+     * Anthropic has no JSON mode; the schema becomes an output tool the model must call
+     */
+    private toAnthropicOutputTool(responseFormat: ResponseFormat): any {
+      return this.toAnthropicTools([{
+        name: responseFormat.name,
+        description: 'Submit your final answer in this format.',
+        parameters: responseFormat.schema,
+      }])[0];
+    }
+
+    private getDefaultOpenAIModel(config: LLMConfig): string {
+      if (config.provider === 'openai-compatible') {
+        return (config.endpoint && this.compatibleEndpoints.get(config.endpoint)?.models?.[0]) || 'default';
+      }
+      return 'gpt-4-turbo-preview';
+    }
+
     private async generateOpenAICompletion(
-      prompt: string,
+      client: OpenAI,
+      config: LLMConfig,
+      messages: ChatMessage[],
       model: string,
       temperature: number,
       maxTokens: number,
-      systemPrompt?: string
+      systemPrompt?: string,
+      tools?: ToolDefinition[]
     ): Promise<LLMResponse> {
-      if (!this.openai) {
-        throw new Error('OpenAI provider not initialized. Please set OPENAI_API_KEY');
-      }
-
-      const messages: any[] = [];
-      if (systemPrompt) {
-        messages.push({ role: 'system', content: systemPrompt });
-      }
-      messages.push({ role: 'user', content: prompt });
-
-      const completion = await this.openai.chat.completions.create({
-        model: model || 'gpt-4-turbo-preview',
-        messages,
+      const completion = await client.chat.completions.create({
+        model: model || this.getDefaultOpenAIModel(config),
+        messages: this.toOpenAIMessages(messages, systemPrompt),
         temperature,
         max_tokens: maxTokens,
-      });
+        ...(tools?.length && { tools: this.toOpenAITools(tools) }),
+        ...(config.responseFormat && { response_format: this.toOpenAIResponseFormat(config.responseFormat) }),
+      }, { signal: config.signal });
+
+      const toolCalls: ToolCall[] = (completion.choices[0]?.message?.tool_calls || [])
+        .filter(call => call.type === 'function')
+        .map(call => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: this.parseToolArguments(call.function.arguments),
+        }));
 
       return {
         content: completion.choices[0]?.message?.content || '',
+        ...(toolCalls.length > 0 && { toolCalls }),
         usage: completion.usage ? {
           promptTokens: completion.usage.prompt_tokens,
           completionTokens: completion.usage.completion_tokens,
           totalTokens: completion.usage.total_tokens,
         } : undefined,
         model: completion.model,
-        provider: 'openai',
+        provider: config.provider,
+        ...(config.endpoint && { endpoint: config.endpoint }),
       };
     }
 
     private async generateAnthropicCompletion(
-      prompt: string,
+      messages: ChatMessage[],
       model: string,
       temperature: number,
       maxTokens: number,
-      systemPrompt?: string
+      systemPrompt?: string,
+      tools?: ToolDefinition[],
+      signal?: AbortSignal,
+      responseFormat?: ResponseFormat
     ): Promise<LLMResponse> {
       if (!this.anthropic) {
         throw new Error('Anthropic provider not initialized. Please set ANTHROPIC_API_KEY');
       }
 
+      const anthropicTools = [
+        ...this.toAnthropicTools(tools || []),
+        ...(responseFormat ? [this.toAnthropicOutputTool(responseFormat)] : []),
+      ];
+
+      const anthropicMessages = this.toAnthropicMessages(messages, systemPrompt);
       const completion = await this.anthropic.messages.create({
         model: model || 'claude-3-opus-20240229',
-        messages: [{ role: 'user', content: prompt }],
-        system: systemPrompt,
+        messages: anthropicMessages.messages,
+        system: anthropicMessages.system,
         temperature,
         max_tokens: maxTokens,
-      });
+        ...(anthropicTools.length > 0 && { tools: anthropicTools }),
+        // With real tools on offer the model picks freely; the output tool is only forced once
+        // none are sent, so a round can still end in a final answer
+        ...(responseFormat && !tools?.length && {
+          tool_choice: { type: 'tool' as const, name: responseFormat.name },
+        }),
+      }, { signal });
 
-      const content = completion.content[0]?.type === 'text' 
-        ? completion.content[0].text 
-        : '';
+      let content = completion.content
+        .map(block => block.type === 'text' ? block.text : '')
+        .join('');
+
+      const toolCalls: ToolCall[] = [];
+      for (const block of completion.content) {
+        if (block.type !== 'tool_use') continue;
+        if (responseFormat && block.name === responseFormat.name) {
+          content = JSON.stringify(block.input);
+        } else {
+          toolCalls.push({ id: block.id, name: block.name, arguments: this.parseToolArguments(block.input) });
+        }
+      }
 
       return {
         content,
+        ...(toolCalls.length > 0 && { toolCalls }),
         usage: {
           promptTokens: completion.usage?.input_tokens || 0,
           completionTokens: completion.usage?.output_tokens || 0,
@@ -157,30 +817,39 @@
     }
 
     private async generateOllamaCompletion(
-      prompt: string,
+      messages: ChatMessage[],
       model: string,
       temperature: number,
       maxTokens: number,
-      systemPrompt?: string
+      systemPrompt?: string,
+      tools?: ToolDefinition[],
+      signal?: AbortSignal,
+      responseFormat?: ResponseFormat,
+      contextWindow?: number
     ): Promise<LLMResponse> {
-      if (!this.ollama) {
-        throw new Error('Ollama provider not initialized');
-      }
-
-      const response = await this.ollama.chat({
+      const response = await this.getOllamaClient(signal).chat({
         model: model || 'llama2',
-        messages: [
-          ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
-          { role: 'user' as const, content: prompt }
-        ],
+        messages: this.toOllamaMessages(messages, systemPrompt),
         options: {
           temperature,
           num_predict: maxTokens,
+          ...(contextWindow && { num_ctx: contextWindow }),
         },
+        ...(tools?.length && { tools: this.toOpenAITools(tools) }),
+        ...(responseFormat && { format: responseFormat.schema }),
       });
 
+      // Ollama doesn't assign tool call ids, so generate stable ones per response
+      const toolCalls: ToolCall[] = (response.message.tool_calls || []).map((call, index) => ({
+        id: `ollama-${Date.now()}-${index}`,
+        name: call.function.name,
+        arguments: this.parseToolArguments(call.function.arguments),
+      }));
+
       return {
         content: response.message.content,
+        usage: this.getOllamaUsage(response),
+        ...(toolCalls.length > 0 && { toolCalls }),
         model: response.model,
         provider: 'ollama',
       };
@@ -190,124 +859,341 @@
       prompt: string,
       config: LLMConfig,
       onChunk: (chunk: string) => void
-    ): Promise<void> {
-      const { provider, model, temperature = 0.7, maxTokens = 1000, systemPrompt } = config;
+    ): Promise<LLMResponse> {
+      return this.streamChatCompletion([{ role: 'user', content: prompt }], config, onChunk);
+    }
 
-      switch (provider) {
-        case 'openai':
-          await this.streamOpenAICompletion(prompt, model, temperature, maxTokens, systemPrompt, onChunk);
-          break;
-        
-        case 'anthropic':
-          await this.streamAnthropicCompletion(prompt, model, temperature, maxTokens, systemPrompt, onChunk);
-          break;
-        
-        case 'ollama':
-          await this.streamOllamaCompletion(prompt, model, temperature, maxTokens, systemPrompt, onChunk);
-          break;
-        
-        default:
-          throw new Error(`Unsupported LLM provider for streaming: ${provider}`);
+    async streamChatCompletion(
+      messages: ChatMessage[],
+      config: LLMConfig,
+      onChunk: (chunk: string) => void
+    ): Promise<LLMResponse> {
+      const { provider, model, temperature = 0.7, maxTokens = 1000, systemPrompt, signal } = config;
+      let startTime = Date.now();
+      let response: LLMResponse;
+
+      try {
+        this.throwIfCancelled(signal);
+        await this.replayReady;
+
+        if (this.replay.isServing()) {
+          response = await this.replay.respond(messages, config);
+          onChunk(response.content);
+          this.recordUsage(config, response, Date.now() - startTime, true);
+          return response;
+        }
+
+        response = await this.schedule(config, async () => {
+          startTime = Date.now();
+          switch (provider) {
+            case 'openai':
+            case 'openai-compatible':
+              return this.streamOpenAICompletion(this.getOpenAIClient(config), config, messages, model, temperature, maxTokens, systemPrompt, onChunk);
+            
+            case 'anthropic':
+              return this.streamAnthropicCompletion(messages, model, temperature, maxTokens, systemPrompt, onChunk, signal, config.responseFormat);
+            
+            case 'ollama':
+              return this.streamOllamaCompletion(messages, model, temperature, maxTokens, systemPrompt, onChunk, signal, config.contextWindow, config.responseFormat);
+            
+            default:
+              throw new Error(`Unsupported LLM provider for streaming: ${provider}`);
+          }
+        });
+      } catch (error) {
+        if (this.isCancellation(error, signal)) {
+          throw new LLMCancelledError();
+        }
+        throw error;
       }
+
+      if (this.replay.isRecording()) {
+        await this.replay.record(messages, config, response);
+      }
+
+      this.recordUsage(config, response, Date.now() - startTime, true);
+      return response;
     }
 
     private async streamOpenAICompletion(
-      prompt: string,
+      client: OpenAI,
+      config: LLMConfig,
+      messages: ChatMessage[],
       model: string,
       temperature: number,
       maxTokens: number,
       systemPrompt: string | undefined,
       onChunk: (chunk: string) => void
-    ): Promise<void> {
-      if (!this.openai) {
-        throw new Error('OpenAI provider not initialized');
-      }
-
-      const messages: any[] = [];
-      if (systemPrompt) {
-        messages.push({ role: 'system', content: systemPrompt });
-      }
-      messages.push({ role: 'user', content: prompt });
-
-      const stream = await this.openai.chat.completions.create({
-        model: model || 'gpt-4-turbo-preview',
-        messages,
+    ): Promise<LLMResponse> {
+      const stream = await client.chat.completions.create({
+        model: model || this.getDefaultOpenAIModel(config),
+        messages: this.toOpenAIMessages(messages, systemPrompt),
         temperature,
         max_tokens: maxTokens,
         stream: true,
-      });
+        // Not every OpenAI-compatible server understands stream_options
+        ...(config.provider === 'openai' && { stream_options: { include_usage: true } }),
+        ...(config.responseFormat && { response_format: this.toOpenAIResponseFormat(config.responseFormat) }),
+      }, { signal: config.signal });
+
+      let content = '';
+      let responseModel = model;
+      let usage: LLMResponse['usage'];
 
       for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        if (content) {
-          onChunk(content);
+        responseModel = chunk.model || responseModel;
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+
+        const delta = chunk.choices[0]?.delta?.content || '';
+        if (delta) {
+          content += delta;
+          onChunk(delta);
         }
       }
+
+      return {
+        content,
+        usage,
+        model: responseModel,
+        provider: config.provider,
+        ...(config.endpoint && { endpoint: config.endpoint }),
+      };
     }
 
     private async streamAnthropicCompletion(
-      prompt: string,
+      messages: ChatMessage[],
       model: string,
       temperature: number,
       maxTokens: number,
       systemPrompt: string | undefined,
-      onChunk: (chunk: string) => void
-    ): Promise<void> {
+      onChunk: (chunk: string) => void,
+      signal?: AbortSignal,
+      responseFormat?: ResponseFormat
+    ): Promise<LLMResponse> {
       if (!this.anthropic) {
         throw new Error('Anthropic provider not initialized');
       }
 
+      const anthropicMessages = this.toAnthropicMessages(messages, systemPrompt);
       const stream = await this.anthropic.messages.create({
         model: model || 'claude-3-opus-20240229',
-        messages: [{ role: 'user', content: prompt }],
-        system: systemPrompt,
+        messages: anthropicMessages.messages,
+        system: anthropicMessages.system,
         temperature,
         max_tokens: maxTokens,
         stream: true,
-      });
+        // The output tool's arguments stream in as partial JSON
+        ...(responseFormat && {
+          tools: [this.toAnthropicOutputTool(responseFormat)],
+          tool_choice: { type: 'tool' as const, name: responseFormat.name },
+        }),
+      }, { signal });
+
+      let content = '';
+      let responseModel = model;
+      let promptTokens = 0;
+      let completionTokens = 0;
 
       for await (const chunk of stream) {
-        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+        if (chunk.type === 'message_start') {
+          responseModel = chunk.message.model;
+          promptTokens = chunk.message.usage?.input_tokens || 0;
+        } else if (chunk.type === 'message_delta') {
+          completionTokens = chunk.usage?.output_tokens || completionTokens;
+        } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+          content += chunk.delta.text;
           onChunk(chunk.delta.text);
+        } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'input_json_delta') {
+          content += chunk.delta.partial_json;
+          onChunk(chunk.delta.partial_json);
         }
       }
+
+      return {
+        content,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        model: responseModel,
+        provider: 'anthropic',
+      };
     }
 
     private async streamOllamaCompletion(
-      prompt: string,
+      messages: ChatMessage[],
       model: string,
       temperature: number,
       maxTokens: number,
       systemPrompt: string | undefined,
-      onChunk: (chunk: string) => void
-    ): Promise<void> {
-      if (!this.ollama) {
-        throw new Error('Ollama provider not initialized');
-      }
-
-      const response = await this.ollama.chat({
+      onChunk: (chunk: string) => void,
+      signal?: AbortSignal,
+      contextWindow?: number,
+      responseFormat?: ResponseFormat
+    ): Promise<LLMResponse> {
+      const response = await this.getOllamaClient(signal).chat({
         model: model || 'llama2',
-        messages: [
-          ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
-          { role: 'user' as const, content: prompt }
-        ],
+        messages: this.toOllamaMessages(messages, systemPrompt),
+        ...(responseFormat && { format: responseFormat.schema }),
         options: {
           temperature,
           num_predict: maxTokens,
+          ...(contextWindow && { num_ctx: contextWindow }),
         },
         stream: true,
       });
 
+      let content = '';
+      let responseModel = model;
+      let usage: LLMResponse['usage'];
+
       for await (const chunk of response) {
+        responseModel = chunk.model || responseModel;
         if (chunk.message?.content) {
+          content += chunk.message.content;
           onChunk(chunk.message.content);
         }
+        if (chunk.done) {
+          usage = this.getOllamaUsage(chunk);
+        }
+      }
+
+      return {
+        content,
+        usage,
+        model: responseModel,
+        provider: 'ollama',
+      };
+    }
+
+    // ===== Embeddings =====
+
+    /**
+     * Embed texts in provider-sized batches. Vectors are cached by a hash of
+     * provider, model and content, so repeated texts are only embedded once.
+     */
+    async embed(texts: string[], config: EmbeddingConfig): Promise<EmbeddingResponse> {
+      const model = config.model || this.getDefaultEmbeddingModel(config);
+      const batchSize = config.batchSize || 64;
+      const keys = texts.map(text => this.getEmbeddingCacheKey(config, model, text));
+      const embeddings: (number[] | undefined)[] = keys.map(key => this.embeddingCache.get(key));
+
+      // Embed each distinct uncached text once
+      const pending = new Map<string, string>();
+      keys.forEach((key, index) => {
+        if (!embeddings[index]) pending.set(key, texts[index]);
+      });
+
+      const startTime = Date.now();
+      let promptTokens = 0;
+      const pendingEntries = Array.from(pending.entries());
+
+      try {
+        for (let start = 0; start < pendingEntries.length; start += batchSize) {
+          this.throwIfCancelled(config.signal);
+          const batch = pendingEntries.slice(start, start + batchSize);
+          const result = await this.schedule(config, () => this.embedBatch(batch.map(([, text]) => text), model, config));
+
+          promptTokens += result.promptTokens;
+          batch.forEach(([key], index) => this.cacheEmbedding(key, result.embeddings[index]));
+        }
+      } catch (error) {
+        if (this.isCancellation(error, config.signal)) {
+          throw new LLMCancelledError();
+        }
+        console.error(`Error generating embeddings with ${config.provider}:`, error);
+        throw error;
+      }
+
+      const response: EmbeddingResponse = {
+        embeddings: keys.map((key, index) => embeddings[index] || this.embeddingCache.get(key)!),
+        model,
+        provider: config.provider,
+        usage: { promptTokens, totalTokens: promptTokens },
+        cached: texts.length - keys.filter((_key, index) => !embeddings[index]).length,
+      };
+
+      if (pending.size > 0) {
+        this.recordUsage(
+          { provider: config.provider, model, endpoint: config.endpoint, context: config.context },
+          { content: '', model, provider: config.provider, endpoint: config.endpoint, usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens } },
+          Date.now() - startTime,
+          false
+        );
+      }
+
+      return response;
+    }
+
+    private async embedBatch(texts: string[], model: string, config: EmbeddingConfig): Promise<{ embeddings: number[][]; promptTokens: number }> {
+      switch (config.provider) {
+        case 'openai':
+        case 'openai-compatible': {
+          const client = this.getOpenAIClient({ provider: config.provider, model, endpoint: config.endpoint, apiKey: config.apiKey, baseUrl: config.baseUrl });
+          const result = await client.embeddings.create({ model, input: texts }, { signal: config.signal });
+          return {
+            // Results carry their input index; don't rely on response order
+            embeddings: [...result.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+            promptTokens: result.usage?.prompt_tokens || 0,
+          };
+        }
+
+        case 'ollama': {
+          const result = await this.getOllamaClient(config.signal).embed({ model, input: texts });
+          return { embeddings: result.embeddings, promptTokens: result.prompt_eval_count || 0 };
+        }
+
+        default:
+          throw new Error(`Unsupported embedding provider: ${config.provider}`);
       }
     }
 
-    async testConnection(provider: string): Promise<boolean> {
+    private getDefaultEmbeddingModel(config: EmbeddingConfig): string {
+      if (config.provider === 'ollama') {
+        return 'nomic-embed-text';
+      }
+      if (config.provider === 'openai-compatible') {
+        return (config.endpoint && this.compatibleEndpoints.get(config.endpoint)?.models?.[0]) || 'default';
+      }
+      return 'text-embedding-3-small';
+    }
+
+    private getEmbeddingCacheKey(config: EmbeddingConfig, model: string, text: string): string {
+      return createHash('sha256')
+        .update(`${config.provider}|${config.endpoint || config.baseUrl || ''}|${model}|${text}`)
+        .digest('hex');
+    }
+
+    private cacheEmbedding(key: string, embedding: number[]): void {
+      // Map iteration order is insertion order, so the first key is the oldest
+      if (this.embeddingCache.size >= this.maxCachedEmbeddings) {
+        const oldest = this.embeddingCache.keys().next().value;
+        if (oldest !== undefined) this.embeddingCache.delete(oldest);
+      }
+      this.embeddingCache.set(key, embedding);
+    }
+
+    async testConnection(provider: string, endpoint?: string): Promise<boolean> {
       try {
         switch (provider) {
+          case 'openai-compatible':
+            const compatible = endpoint ? this.compatibleEndpoints.get(endpoint) : undefined;
+            if (!compatible) return false;
+            try {
+              await compatible.client.models.list();
+              return true;
+            } catch (error: any) {
+              console.warn(`OpenAI-compatible endpoint "${endpoint}" connection failed: ${error.message}`);
+              return false;
+            }
+          
           case 'openai':
             if (!this.openai) return false;
             try {
@@ -371,13 +1257,151 @@
           results[provider] = false;
         }
       }
+
+      for (const name of this.compatibleEndpoints.keys()) {
+        const key = `openai-compatible:${name}`;
+        console.log(`🔍 Testing ${key} connection...`);
+        results[key] = await this.testConnection('openai-compatible', name);
+        console.log(`✅ ${key} test completed: ${results[key]}`);
+      }
       
       return results;
     }
 
-    async listAvailableModels(provider: string): Promise<string[]> {
+    // ===== Retry and fallback =====
+
+    /**
+     * Run a call against each config in a fallback chain, retrying transient
+     * failures with exponential backoff before moving to the next config.
+     * Returns the result together with the config that produced it.
+     */
+    async runWithFallback<T>(
+      chain: LLMConfig[],
+      call: (config: LLMConfig) => Promise<T>,
+      retryPolicy: Partial<RetryPolicy> = {}
+    ): Promise<{ result: T; config: LLMConfig; attempts: LLMAttempt[] }> {
+      const policy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+      const attempts: LLMAttempt[] = [];
+
+      for (const config of chain) {
+        this.throwIfCancelled(config.signal);
+        if (!this.isProviderAvailable(config.provider, config.endpoint)) {
+          attempts.push({ ...this.describeConfig(config), error: 'provider not available', transient: false });
+          continue;
+        }
+
+        for (let retry = 0; ; retry++) {
+          try {
+            const result = await call(config);
+            return { result, config, attempts };
+          } catch (error: any) {
+            // A cancelled call must not be retried or handed to the next provider
+            if (error instanceof LLMCancelledError || this.isCancellation(error, config.signal)) {
+              throw error instanceof LLMCancelledError ? error : new LLMCancelledError();
+            }
+
+            const transient = this.isTransientError(error);
+            attempts.push({ ...this.describeConfig(config), error: error.message, transient });
+
+            if (!transient || retry >= policy.maxRetries) {
+              console.warn(`⚠️ ${config.provider}:${config.model} failed, trying next provider:`, error.message);
+              break;
+            }
+
+            const delay = this.getBackoffDelay(retry, policy);
+            console.warn(`🔁 ${config.provider}:${config.model} failed (${error.message}), retrying in ${delay}ms`);
+            await this.sleep(delay, config.signal);
+          }
+        }
+      }
+
+      throw new LLMFallbackError(attempts);
+    }
+
+    async generateChatCompletionWithFallback(
+      messages: ChatMessage[],
+      chain: LLMConfig[],
+      retryPolicy?: Partial<RetryPolicy>
+    ): Promise<LLMResponse> {
+      const { result, attempts } = await this.runWithFallback(
+        chain,
+        config => this.generateChatCompletion(messages, config),
+        retryPolicy
+      );
+      return attempts.length > 0 ? { ...result, attempts } : result;
+    }
+
+    /**
+     * Timeouts, rate limits, 5xx responses and dropped connections are worth retrying
+     */
+    isTransientError(error: any): boolean {
+      const status = error?.status ?? error?.status_code ?? error?.response?.status;
+      if (typeof status === 'number') {
+        return status === 408 || status === 409 || status === 429 || status >= 500;
+      }
+
+      const code = error?.code || error?.cause?.code;
+      if (['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'].includes(code)) {
+        return true;
+      }
+
+      const message = String(error?.message || '').toLowerCase();
+      return ['timeout', 'timed out', 'fetch failed', 'socket hang up', 'connection error', 'overloaded']
+        .some(fragment => message.includes(fragment));
+    }
+
+    private throwIfCancelled(signal?: AbortSignal): void {
+      if (signal?.aborted) {
+        throw new LLMCancelledError();
+      }
+    }
+
+    private isCancellation(error: any, signal?: AbortSignal): boolean {
+      return error instanceof LLMCancelledError ||
+        !!signal?.aborted ||
+        error?.name === 'AbortError' ||
+        error?.name === 'APIUserAbortError';
+    }
+
+    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, ms);
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(new LLMCancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+
+    private getBackoffDelay(retry: number, policy: RetryPolicy): number {
+      const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry));
+      const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+      return Math.round(base * (1 - jitter) + base * jitter * Math.random());
+    }
+
+    private describeConfig(config: LLMConfig): { provider: string; model: string; endpoint?: string } {
+      return {
+        provider: config.provider,
+        model: config.model,
+        ...(config.endpoint && { endpoint: config.endpoint }),
+      };
+    }
+
+    async listAvailableModels(provider: string, endpoint?: string): Promise<string[]> {
       try {
         switch (provider) {
+          case 'openai-compatible':
+            const compatible = endpoint ? this.compatibleEndpoints.get(endpoint) : undefined;
+            if (!compatible) throw new Error(`OpenAI-compatible endpoint "${endpoint || ''}" not registered`);
+            // Prefer the configured model list; fall back to asking the server
+            if (compatible.models?.length) return compatible.models;
+            const compatibleModels = await compatible.client.models.list();
+            return compatibleModels.data.map(m => m.id);
+          
           case 'openai':
             if (!this.openai) throw new Error('OpenAI not initialized');
             const openaiModels = await this.openai.models.list();
@@ -409,15 +1433,40 @@
       }
     }
 
+    /**
+     * Ollama's model details: context length, Modelfile parameters and capabilities
+     */
+    async showOllamaModel(model: string): Promise<ShowResponse> {
+      if (!this.ollama) throw new Error('Ollama not initialized');
+      return this.ollama.show({ model });
+    }
+
     getStatus(): Record<string, string> {
-      return {
+      const status: Record<string, string> = {
         openai: this.openai ? 'initialized' : 'not configured',
         anthropic: this.anthropic ? 'initialized' : 'not configured',
         ollama: this.ollama ? 'initialized' : 'not configured',
       };
+
+      for (const name of this.compatibleEndpoints.keys()) {
+        status[`openai-compatible:${name}`] = 'initialized';
+      }
+
+      if (this.replay.getMode() !== 'off') {
+        status.replay = this.replay.getMode();
+      }
+
+      return status;
     }
 
-    isProviderAvailable(provider: string): boolean {
+    isProviderAvailable(provider: string, endpoint?: string): boolean {
+      // Replayed and scripted responses need no model server
+      if (this.replay.isServing()) {
+        return true;
+      }
+      if (provider === 'openai-compatible') {
+        return endpoint ? this.compatibleEndpoints.has(endpoint) : this.compatibleEndpoints.size > 0;
+      }
       return this.providers.has(provider);
     }
   }
\ No newline at end of file
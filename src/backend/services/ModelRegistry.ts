@@ -0,0 +1,274 @@
+import { PrismaClient } from '@prisma/client';
+import type { ShowResponse } from 'ollama';
+import { LLMService } from './LLMService';
+import { LLMProviderType, ModelCapabilities, ModelInfo } from '../../shared/types';
+
+export type ModelCapability = 'toolCalling' | 'jsonMode' | 'vision' | 'embedding';
+
+export class ModelCapabilityError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public model: string,
+    public capability: ModelCapability
+  ) {
+    super(message);
+    this.name = 'ModelCapabilityError';
+  }
+}
+
+// What we know about models without asking the provider; the longest matching prefix wins
+const BUILTIN_CAPABILITIES: Record<string, ModelCapabilities> = {
+  'gpt-4o': { contextWindow: 128000, toolCalling: true, jsonMode: true, vision: true },
+  'gpt-4.1': { contextWindow: 1047576, toolCalling: true, jsonMode: true, vision: true },
+  // Older OpenAI models reject json_schema response formats
+  'gpt-4-turbo': { contextWindow: 128000, toolCalling: true, jsonMode: false, vision: true },
+  'gpt-4': { contextWindow: 8192, toolCalling: true, jsonMode: false, vision: false },
+  'gpt-3.5-turbo': { contextWindow: 16385, toolCalling: true, jsonMode: false, vision: false },
+  'text-embedding': { contextWindow: 8191, toolCalling: false, jsonMode: false, vision: false, embedding: true },
+  // Claude 3+ structured output goes through a forced tool call
+  'claude-3': { contextWindow: 200000, toolCalling: true, jsonMode: true, vision: true },
+  'claude-2': { contextWindow: 100000, toolCalling: false, jsonMode: false, vision: false },
+  'llama2': { contextWindow: 4096, toolCalling: false },
+  'llama3.1': { contextWindow: 131072, toolCalling: true },
+  'llama3.2': { contextWindow: 131072, toolCalling: true },
+  'llama3.2-vision': { contextWindow: 131072, toolCalling: false, vision: true },
+  'llama3': { contextWindow: 8192, toolCalling: false },
+  'llava': { contextWindow: 4096, toolCalling: false, vision: true },
+  'mistral': { contextWindow: 32768, toolCalling: true },
+  'mixtral': { contextWindow: 32768, toolCalling: true },
+  'qwen2.5': { contextWindow: 32768, toolCalling: true },
+  'gemma': { contextWindow: 8192, toolCalling: false },
+  'codellama': { contextWindow: 16384, toolCalling: false },
+  'phi3': { contextWindow: 4096, toolCalling: false },
+  'nomic-embed-text': { contextWindow: 8192, toolCalling: false, jsonMode: false, vision: false, embedding: true },
+};
+
+// Provider discovery is re-run when the cached model list is older than this
+const DISCOVERY_TTL_MS = 5 * 60 * 1000;
+
+const CAPABILITY_FIELDS = ['contextWindow', 'toolCalling', 'jsonMode', 'vision'] as const;
+
+export class ModelRegistry {
+  private discovered = new Map<string, ModelInfo>();
+  private lookups = new Map<string, ModelInfo>(); // Models described on demand since the last refresh
+  private overrides = new Map<string, ModelCapabilities>();
+  private overridesLoaded: Promise<void> | null = null;
+  private discoveredAt = 0;
+
+  constructor(
+    private prisma: PrismaClient,
+    private llmService: LLMService
+  ) {}
+
+  /**
+   * All known models: discovered from the configured providers plus any overridden by the user
+   */
+  async list(options: { refresh?: boolean } = {}): Promise<ModelInfo[]> {
+    if (options.refresh || Date.now() - this.discoveredAt > DISCOVERY_TTL_MS) {
+      await this.refresh();
+    }
+    await this.loadOverrides();
+
+    const models = new Map(this.discovered);
+    for (const key of this.overrides.keys()) {
+      if (!models.has(key)) {
+        const { provider, endpoint, model } = this.parseKey(key);
+        models.set(key, this.describeFromBuiltins(provider, model, endpoint));
+      }
+    }
+
+    return Array.from(models.entries())
+      .map(([key, info]) => this.applyOverride(key, info))
+      .sort((a, b) => a.provider.localeCompare(b.provider) || a.model.localeCompare(b.model));
+  }
+
+  /**
+   * Ask every configured provider for its models. Ollama models are described
+   * individually so their real context length and capabilities are known.
+   */
+  async refresh(): Promise<void> {
+    const discovered = new Map<string, ModelInfo>();
+
+    for (const [name, status] of Object.entries(this.llmService.getStatus())) {
+      if (status !== 'initialized') continue;
+
+      const [provider, endpoint] = name.split(':') as [LLMProviderType, string | undefined];
+      const models = await this.llmService.listAvailableModels(provider, endpoint);
+
+      for (const model of models) {
+        const info = provider === 'ollama'
+          ? await this.describeOllamaModel(model)
+          : this.describeFromBuiltins(provider, model, endpoint);
+        discovered.set(this.getKey(provider, model, endpoint), info);
+      }
+    }
+
+    this.discovered = discovered;
+    this.lookups.clear();
+    this.discoveredAt = Date.now();
+    console.log(`📚 [MODELS] Discovered ${discovered.size} models`);
+  }
+
+  /**
+   * Capabilities of one model, with user overrides applied. Never throws:
+   * models nobody knows about come back with unknown capabilities.
+   */
+  async getModel(provider: string, model: string, endpoint?: string): Promise<ModelInfo> {
+    await this.loadOverrides();
+
+    const key = this.getKey(provider, model, endpoint);
+    let info = this.discovered.get(key) || this.lookups.get(key);
+    if (!info) {
+      info = provider === 'ollama'
+        ? await this.describeOllamaModel(model)
+        : this.describeFromBuiltins(provider as LLMProviderType, model, endpoint);
+      this.lookups.set(key, info);
+    }
+
+    return this.applyOverride(key, info);
+  }
+
+  /**
+   * Only a capability known to be missing counts as unsupported, except JSON mode on
+   * OpenAI-compatible endpoints: many reject json_schema outright, so it has to be known to work
+   */
+  supports(info: ModelInfo, capability: ModelCapability): boolean {
+    if (capability === 'jsonMode' && info.provider === 'openai-compatible') {
+      return info.capabilities.jsonMode === true;
+    }
+    return info.capabilities[capability] !== false;
+  }
+
+  async setOverride(provider: string, model: string, endpoint: string | undefined, capabilities: ModelCapabilities): Promise<ModelInfo> {
+    const data = Object.fromEntries(CAPABILITY_FIELDS.map(field => [field, capabilities[field] ?? null]));
+
+    await this.prisma.modelCapabilityOverride.upsert({
+      where: { provider_endpoint_model: { provider, endpoint: endpoint || '', model } },
+      create: { provider, endpoint: endpoint || '', model, ...data },
+      update: data,
+    });
+
+    await this.loadOverrides();
+    this.overrides.set(this.getKey(provider, model, endpoint), this.toCapabilities(data));
+    return this.getModel(provider, model, endpoint);
+  }
+
+  async removeOverride(provider: string, model: string, endpoint?: string): Promise<boolean> {
+    const { count } = await this.prisma.modelCapabilityOverride.deleteMany({
+      where: { provider, endpoint: endpoint || '', model },
+    });
+
+    await this.loadOverrides();
+    this.overrides.delete(this.getKey(provider, model, endpoint));
+    return count > 0;
+  }
+
+  private loadOverrides(): Promise<void> {
+    if (!this.overridesLoaded) {
+      this.overridesLoaded = this.fetchOverrides();
+    }
+    return this.overridesLoaded;
+  }
+
+  private async fetchOverrides(): Promise<void> {
+    try {
+      const rows = await this.prisma.modelCapabilityOverride.findMany();
+      for (const row of rows) {
+        this.overrides.set(this.getKey(row.provider, row.model, row.endpoint || undefined), this.toCapabilities(row));
+      }
+    } catch (error: any) {
+      // Lookups still work from discovery and builtins; retry on the next call
+      this.overridesLoaded = null;
+      console.warn('⚠️ [MODELS] Could not load capability overrides:', error.message);
+    }
+  }
+
+  private applyOverride(key: string, info: ModelInfo): ModelInfo {
+    const override = this.overrides.get(key);
+    if (!override) {
+      return info;
+    }
+    return { ...info, capabilities: { ...info.capabilities, ...override }, overridden: true };
+  }
+
+  private describeFromBuiltins(provider: LLMProviderType, model: string, endpoint?: string): ModelInfo {
+    const builtin = this.findBuiltin(model);
+
+    return {
+      provider,
+      ...(endpoint && { endpoint }),
+      model,
+      capabilities: {
+        ...builtin,
+        // Ollama constrains output to the schema itself, whatever the model
+        ...(provider === 'ollama' && !builtin?.embedding && { jsonMode: true }),
+      },
+      source: builtin ? 'builtin' : 'unknown',
+      overridden: false,
+    };
+  }
+
+  private async describeOllamaModel(model: string): Promise<ModelInfo> {
+    const fallback = this.describeFromBuiltins('ollama', model);
+
+    let details: ShowResponse;
+    try {
+      details = await this.llmService.showOllamaModel(model);
+    } catch (error: any) {
+      console.warn(`⚠️ [MODELS] Could not describe Ollama model ${model}:`, error.message);
+      return fallback;
+    }
+
+    // model_info arrives as a plain object despite the Map typing
+    const modelInfo: Record<string, any> = details.model_info instanceof Map
+      ? Object.fromEntries(details.model_info)
+      : details.model_info || {};
+    const contextLength = Object.entries(modelInfo).find(([key]) => key.endsWith('.context_length'))?.[1];
+    // A num_ctx in the Modelfile is what the model actually runs with
+    const numCtx = details.parameters?.match(/^num_ctx\s+(\d+)/m)?.[1];
+
+    // Older Ollama servers don't report capabilities; keep the builtin guesses then
+    const reported = details.capabilities?.length ? details.capabilities : null;
+
+    return {
+      ...fallback,
+      capabilities: {
+        ...fallback.capabilities,
+        contextWindow: numCtx ? parseInt(numCtx, 10) : contextLength || fallback.capabilities.contextWindow,
+        ...(reported && {
+          toolCalling: reported.includes('tools'),
+          vision: reported.includes('vision'),
+          embedding: reported.includes('embedding'),
+          jsonMode: !reported.includes('embedding'),
+        }),
+      },
+      source: 'provider',
+    };
+  }
+
+  private findBuiltin(model: string): ModelCapabilities | undefined {
+    const prefix = Object.keys(BUILTIN_CAPABILITIES)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? BUILTIN_CAPABILITIES[prefix] : undefined;
+  }
+
+  private toCapabilities(row: Record<string, any>): ModelCapabilities {
+    // Null columns mean the override leaves that capability alone
+    return Object.fromEntries(
+      CAPABILITY_FIELDS
+        .filter(field => row[field] !== null && row[field] !== undefined)
+        .map(field => [field, row[field]])
+    ) as Pick<ModelCapabilities, typeof CAPABILITY_FIELDS[number]>;
+  }
+
+  private getKey(provider: string, model: string, endpoint?: string): string {
+    return [provider, endpoint || '', model].join('|');
+  }
+
+  private parseKey(key: string): { provider: LLMProviderType; endpoint?: string; model: string } {
+    const [provider, endpoint, ...model] = key.split('|');
+    return { provider: provider as LLMProviderType, ...(endpoint && { endpoint }), model: model.join('|') };
+  }
+}
@@ -0,0 +1,262 @@
+import { PrismaClient } from '@prisma/client';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMService, ProviderConnectionConfig } from './LLMService';
+
+export type ProviderType = ProviderConnectionConfig['type'];
+
+export interface ProviderSettingInput {
+  type: ProviderType;
+  // Defaults to the type; required to tell 'openai-compatible' endpoints apart
+  name?: string;
+  baseUrl?: string;
+  // undefined keeps the stored key, an empty string clears it
+  apiKey?: string;
+  models?: string[];
+  enabled?: boolean;
+}
+
+// What the API returns: never the key itself
+export interface ProviderSettingView {
+  id: string;
+  type: ProviderType;
+  name: string;
+  baseUrl: string | null;
+  hasApiKey: boolean;
+  apiKeyHint: string | null;
+  models: string[];
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProviderTestResult {
+  connected: boolean;
+  models: string[];
+  error?: string;
+}
+
+const PROVIDER_TYPES: ProviderType[] = ['openai', 'anthropic', 'ollama', 'openai-compatible'];
+
+export class ProviderSettingsService {
+  private encryptionKey: Promise<Buffer> | null = null;
+
+  constructor(
+    private prisma: PrismaClient,
+    private llmService: LLMService
+  ) {}
+
+  /**
+   * Configure LLMService from the stored settings; called once at startup
+   */
+  async applyStoredSettings(): Promise<void> {
+    const settings = await this.prisma.providerSetting.findMany({ where: { enabled: true } });
+
+    for (const setting of settings) {
+      try {
+        this.llmService.configureProvider(await this.toConnectionConfig(setting));
+      } catch (error: any) {
+        console.error(`❌ Failed to apply stored settings for provider ${setting.name}:`, error.message);
+      }
+    }
+  }
+
+  async list(): Promise<ProviderSettingView[]> {
+    const settings = await this.prisma.providerSetting.findMany({ orderBy: { createdAt: 'asc' } });
+    return Promise.all(settings.map((setting: any) => this.toView(setting)));
+  }
+
+  async create(input: ProviderSettingInput): Promise<ProviderSettingView> {
+    this.validate(input);
+
+    const setting = await this.prisma.providerSetting.create({
+      data: {
+        type: input.type,
+        name: this.getName(input),
+        baseUrl: input.baseUrl || null,
+        encryptedApiKey: input.apiKey ? await this.encrypt(input.apiKey) : null,
+        models: JSON.stringify(input.models || []),
+        enabled: input.enabled ?? true,
+      },
+    });
+
+    await this.apply(setting);
+    return this.toView(setting);
+  }
+
+  async update(id: string, input: Partial<ProviderSettingInput>): Promise<ProviderSettingView | null> {
+    const existing = await this.prisma.providerSetting.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const type = (input.type || existing.type) as ProviderType;
+    const name = input.type || input.name ? this.getName({ type, name: input.name ?? existing.name }) : existing.name;
+    this.validate({ type, name, baseUrl: input.baseUrl ?? existing.baseUrl ?? undefined });
+
+    const setting = await this.prisma.providerSetting.update({
+      where: { id },
+      data: {
+        type,
+        name,
+        ...(input.baseUrl !== undefined && { baseUrl: input.baseUrl || null }),
+        ...(input.apiKey !== undefined && { encryptedApiKey: input.apiKey ? await this.encrypt(input.apiKey) : null }),
+        ...(input.models !== undefined && { models: JSON.stringify(input.models) }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+      },
+    });
+
+    // A renamed or retyped provider must not linger under its old identity
+    if (existing.type !== setting.type || existing.name !== setting.name) {
+      this.llmService.resetProvider(existing.type as ProviderType, existing.name);
+    }
+    await this.apply(setting);
+    return this.toView(setting);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const existing = await this.prisma.providerSetting.findUnique({ where: { id } });
+    if (!existing) {
+      return false;
+    }
+
+    await this.prisma.providerSetting.delete({ where: { id } });
+    this.llmService.resetProvider(existing.type as ProviderType, existing.name);
+    return true;
+  }
+
+  /**
+   * Check a stored provider against its live client and list its models
+   */
+  async test(id: string): Promise<ProviderTestResult | null> {
+    const setting = await this.prisma.providerSetting.findUnique({ where: { id } });
+    if (!setting) {
+      return null;
+    }
+
+    const endpoint = setting.type === 'openai-compatible' ? setting.name : undefined;
+    try {
+      const connected = await this.llmService.testConnection(setting.type, endpoint);
+      const models = connected ? await this.llmService.listAvailableModels(setting.type, endpoint) : [];
+      return { connected, models };
+    } catch (error: any) {
+      return { connected: false, models: [], error: error.message };
+    }
+  }
+
+  isProviderType(value: string): value is ProviderType {
+    return PROVIDER_TYPES.includes(value as ProviderType);
+  }
+
+  private async apply(setting: any): Promise<void> {
+    if (setting.enabled) {
+      this.llmService.configureProvider(await this.toConnectionConfig(setting));
+    } else {
+      this.llmService.resetProvider(setting.type, setting.name);
+    }
+  }
+
+  private validate(input: ProviderSettingInput): void {
+    if (!this.isProviderType(input.type)) {
+      throw new Error(`Provider type must be one of ${PROVIDER_TYPES.join(', ')}`);
+    }
+    if (input.type === 'openai-compatible' && (!input.name || !input.baseUrl)) {
+      throw new Error('OpenAI-compatible providers require a name and baseUrl');
+    }
+  }
+
+  private getName(input: ProviderSettingInput): string {
+    // Built-in providers have a single instance each, named after the type
+    return input.type === 'openai-compatible' ? input.name!.trim() : input.type;
+  }
+
+  private async toConnectionConfig(setting: any): Promise<ProviderConnectionConfig> {
+    return {
+      type: setting.type,
+      name: setting.name,
+      baseUrl: setting.baseUrl || undefined,
+      apiKey: setting.encryptedApiKey ? await this.decrypt(setting.encryptedApiKey) : undefined,
+      models: JSON.parse(setting.models || '[]'),
+    };
+  }
+
+  private async toView(setting: any): Promise<ProviderSettingView> {
+    let apiKeyHint: string | null = null;
+    if (setting.encryptedApiKey) {
+      try {
+        const apiKey = await this.decrypt(setting.encryptedApiKey);
+        apiKeyHint = `…${apiKey.slice(-4)}`;
+      } catch {
+        apiKeyHint = '(unreadable)';
+      }
+    }
+
+    return {
+      id: setting.id,
+      type: setting.type,
+      name: setting.name,
+      baseUrl: setting.baseUrl,
+      hasApiKey: !!setting.encryptedApiKey,
+      apiKeyHint,
+      models: JSON.parse(setting.models || '[]'),
+      enabled: setting.enabled,
+      createdAt: setting.createdAt,
+      updatedAt: setting.updatedAt,
+    };
+  }
+
+  // ===== API key encryption (AES-256-GCM) =====
+
+  private async encrypt(plaintext: string): Promise<string> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  private async decrypt(payload: string): Promise<string> {
+    const [version, iv, tag, encrypted] = payload.split(':');
+    if (version !== 'v1' || !iv || !tag || !encrypted) {
+      throw new Error('Unrecognized encrypted value');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', await this.getEncryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * SETTINGS_ENCRYPTION_KEY if set, otherwise a random key kept in a user-only file
+   */
+  private getEncryptionKey(): Promise<Buffer> {
+    // Memoize the promise so concurrent first calls can't create two different key files
+    if (!this.encryptionKey) {
+      this.encryptionKey = this.loadEncryptionKey().catch(error => {
+        this.encryptionKey = null;
+        throw error;
+      });
+    }
+    return this.encryptionKey;
+  }
+
+  private async loadEncryptionKey(): Promise<Buffer> {
+    if (process.env.SETTINGS_ENCRYPTION_KEY) {
+      return createHash('sha256').update(process.env.SETTINGS_ENCRYPTION_KEY).digest();
+    }
+
+    const keyFile = process.env.SETTINGS_KEY_FILE || path.join(os.homedir(), '.intellispace', 'settings.key');
+    try {
+      return Buffer.from((await fs.readFile(keyFile, 'utf-8')).trim(), 'hex');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+
+      const key = randomBytes(32);
+      await fs.mkdir(path.dirname(keyFile), { recursive: true });
+      await fs.writeFile(keyFile, key.toString('hex'), { mode: 0o600 });
+      console.log('🔑 Created settings encryption key at', keyFile);
+      return key;
+    }
+  }
+}
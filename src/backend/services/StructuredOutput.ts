@@ -0,0 +1,146 @@
+// JSON schema subset used for structured LLM output: type, properties, required,
+// additionalProperties, items, enum and minLength
+export type JSONSchema = Record<string, any>;
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public rawOutput: string,
+    public validationErrors: string[],
+    public attempts: number
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredParseResult<T> {
+  value?: T;
+  errors: string[];
+}
+
+/**
+ * Parse model output as JSON and check it against the schema.
+ * Tolerates a markdown code fence or text around a single JSON object.
+ */
+export function parseStructuredOutput<T = any>(text: string, schema: JSONSchema): StructuredParseResult<T> {
+  let value: any;
+  try {
+    value = JSON.parse(extractJSON(text));
+  } catch (error: any) {
+    return { errors: [`Output is not valid JSON: ${error.message}`] };
+  }
+
+  const errors = validateAgainstSchema(value, schema);
+  return errors.length > 0 ? { errors } : { value, errors };
+}
+
+function extractJSON(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  if (fenced) {
+    return fenced[1];
+  }
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return start >= 0 && end > start ? trimmed.substring(start, end + 1) : trimmed;
+}
+
+export function validateAgainstSchema(value: any, schema: JSONSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path} must be ${types.join(' or ')}, got ${describeType(value)}`);
+      return errors;
+    }
+  }
+
+  if (typeof value === 'string' && typeof schema.minLength === 'number' && value.length < schema.minLength) {
+    errors.push(`${path} must be at least ${schema.minLength} characters`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`)));
+  }
+
+  if (describeType(value) === 'object') {
+    const properties: Record<string, JSONSchema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (properties[key]) {
+        errors.push(...validateAgainstSchema(propertyValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: any, type: string): boolean {
+  if (type === 'integer') {
+    return Number.isInteger(value);
+  }
+  return describeType(value) === type;
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Read the first string value for a key from JSON that is still being generated,
+ * e.g. to show an agent's "message" while the rest of its reply streams in.
+ * Returns '' until the value has started.
+ */
+export function readPartialStringField(text: string, field: string): string {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+  if (!start) {
+    return '';
+  }
+
+  let value = '';
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    // Stop at an escape sequence split across chunks; the next chunk completes it
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = text.substring(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += JSON_ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+
+  return value;
+}
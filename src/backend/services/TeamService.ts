@@ -0,0 +1,178 @@
+import { PrismaClient } from '@prisma/client';
+import { ApprovalGate, TeamDefinition, TeamDefinitionInput, TeamMember } from '../../shared/types';
+
+export class TeamService {
+  constructor(private prisma: PrismaClient) {}
+
+  async list(): Promise<TeamDefinition[]> {
+    const teams = await this.prisma.team.findMany({ orderBy: { createdAt: 'asc' } });
+    return teams.map((team: any) => this.toDefinition(team));
+  }
+
+  async get(id: string): Promise<TeamDefinition | null> {
+    const team = await this.prisma.team.findUnique({ where: { id } });
+    return team ? this.toDefinition(team) : null;
+  }
+
+  async create(input: TeamDefinitionInput): Promise<TeamDefinition> {
+    const members = await this.validate(input);
+    const approvalGates = this.validateApprovalGates(input.approvalGates || [], members);
+
+    const team = await this.prisma.team.create({
+      data: {
+        name: input.name.trim(),
+        description: input.description || null,
+        leadAgentId: input.leadAgentId,
+        members: JSON.stringify(members),
+        approvalGates: JSON.stringify(approvalGates),
+      },
+    });
+    return this.toDefinition(team);
+  }
+
+  async update(id: string, input: Partial<TeamDefinitionInput>): Promise<TeamDefinition | null> {
+    const existing = await this.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const merged: TeamDefinitionInput = {
+      name: input.name ?? existing.name,
+      description: input.description ?? existing.description ?? undefined,
+      leadAgentId: input.leadAgentId ?? existing.leadAgentId,
+      members: input.members ?? existing.members,
+      approvalGates: input.approvalGates ?? existing.approvalGates,
+    };
+    const members = await this.validate(merged);
+    const approvalGates = this.validateApprovalGates(merged.approvalGates || [], members);
+
+    const team = await this.prisma.team.update({
+      where: { id },
+      data: {
+        name: merged.name.trim(),
+        description: merged.description || null,
+        leadAgentId: merged.leadAgentId,
+        members: JSON.stringify(members),
+        approvalGates: JSON.stringify(approvalGates),
+      },
+    });
+    return this.toDefinition(team);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const { count } = await this.prisma.team.deleteMany({ where: { id } });
+    if (count > 0) {
+      // Conversations fall back to the default team
+      await this.prisma.conversation.updateMany({ where: { teamId: id }, data: { teamId: null } });
+    }
+    return count > 0;
+  }
+
+  /**
+   * The team attached to a conversation, or null when it has none
+   */
+  async getForConversation(conversationId: string): Promise<TeamDefinition | null> {
+    const conversation = await this.prisma.conversation.findUnique({ where: { id: conversationId } });
+    return conversation?.teamId ? this.get(conversation.teamId) : null;
+  }
+
+  /**
+   * Attach a team to a conversation, or detach it with null. Returns false when the conversation doesn't exist.
+   */
+  async assignToConversation(conversationId: string, teamId: string | null): Promise<boolean> {
+    if (teamId && !await this.get(teamId)) {
+      throw new Error(`Team ${teamId} not found`);
+    }
+
+    const { count } = await this.prisma.conversation.updateMany({
+      where: { id: conversationId },
+      data: { teamId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Check a definition and return its members normalized
+   */
+  private async validate(input: TeamDefinitionInput): Promise<TeamMember[]> {
+    if (!input.name?.trim()) {
+      throw new Error('Team name is required');
+    }
+    if (!Array.isArray(input.members) || input.members.length === 0) {
+      throw new Error('A team needs at least one member');
+    }
+
+    const memberIds = input.members.map(member => member.agentId);
+    if (new Set(memberIds).size !== memberIds.length) {
+      throw new Error('Each agent can only be a member once');
+    }
+    if (!memberIds.includes(input.leadAgentId)) {
+      throw new Error('The lead agent must be a member of the team');
+    }
+
+    const agents = await this.prisma.agent.findMany({ where: { id: { in: memberIds } } });
+    const missing = memberIds.filter(id => !agents.some((agent: any) => agent.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Unknown agents: ${missing.join(', ')}`);
+    }
+
+    return input.members.map(member => {
+      const unknownHandoffs = member.handoffs?.filter(id => !memberIds.includes(id)) || [];
+      if (unknownHandoffs.length > 0) {
+        throw new Error(`${member.agentId} hands off to agents outside the team: ${unknownHandoffs.join(', ')}`);
+      }
+      const unknownDependencies = member.dependsOn?.filter(id => !memberIds.includes(id)) || [];
+      if (unknownDependencies.length > 0) {
+        throw new Error(`${member.agentId} depends on agents outside the team: ${unknownDependencies.join(', ')}`);
+      }
+
+      return {
+        agentId: member.agentId,
+        ...(member.rolePrompt?.trim() && { rolePrompt: member.rolePrompt }),
+        ...(member.handoffs && { handoffs: member.handoffs.filter(id => id !== member.agentId) }),
+        ...(member.dependsOn && { dependsOn: member.dependsOn.filter(id => id !== member.agentId) }),
+      };
+    });
+  }
+
+  /**
+   * Check the team's approval gates; before-agent gates must name a member
+   */
+  private validateApprovalGates(gates: ApprovalGate[], members: TeamMember[]): ApprovalGate[] {
+    if (!Array.isArray(gates)) {
+      throw new Error('approvalGates must be a list');
+    }
+
+    return gates.map(gate => {
+      if (gate.type !== 'after-phase' && gate.type !== 'before-agent') {
+        throw new Error(`Unknown approval gate type: ${gate.type}`);
+      }
+      if (gate.type === 'after-phase' && !gate.phase) {
+        throw new Error('after-phase approval gates need a phase');
+      }
+      if (gate.type === 'before-agent' && !members.some(member => member.agentId === gate.agentId)) {
+        throw new Error(`before-agent approval gate names ${gate.agentId || 'no agent'}, who is not on the team`);
+      }
+      if (gate.timeoutSeconds !== undefined && !(gate.timeoutSeconds > 0)) {
+        throw new Error('Approval gate timeouts must be a positive number of seconds');
+      }
+      if (gate.onTimeout && gate.onTimeout !== 'approve' && gate.onTimeout !== 'reject') {
+        throw new Error("onTimeout must be 'approve' or 'reject'");
+      }
+      return gate;
+    });
+  }
+
+  private toDefinition(team: any): TeamDefinition {
+    return {
+      id: team.id,
+      name: team.name,
+      description: team.description,
+      leadAgentId: team.leadAgentId,
+      members: JSON.parse(team.members || '[]'),
+      approvalGates: JSON.parse(team.approvalGates || '[]'),
+      createdAt: team.createdAt,
+      updatedAt: team.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { PrismaClient } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { LLMUsageEntry } from './LLMService';
+
+export interface UsageFilter {
+  agentId?: string;
+  conversationId?: string;
+  projectId?: string;
+  provider?: string;
+  since?: Date;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+  averageLatencyMs: number;
+}
+
+export type UsageDimension = 'agent' | 'conversation' | 'project' | 'provider' | 'model';
+
+export interface UsageBreakdownRow extends UsageTotals {
+  key: string | null;
+}
+
+// USD per 1M tokens, matched against the longest model-name prefix
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+};
+
+const DIMENSION_FIELDS: Record<UsageDimension, 'agentId' | 'conversationId' | 'projectId' | 'provider' | 'model'> = {
+  agent: 'agentId',
+  conversation: 'conversationId',
+  project: 'projectId',
+  provider: 'provider',
+  model: 'model',
+};
+
+export class UsageService {
+  constructor(
+    private prisma: PrismaClient,
+    private io?: SocketIOServer
+  ) {}
+
+  /**
+   * Persist one LLM call. Project is resolved from the conversation when not given.
+   */
+  async record(entry: LLMUsageEntry): Promise<void> {
+    const { agentId, conversationId } = entry.context;
+    let projectId = entry.context.projectId;
+
+    if (!projectId && conversationId) {
+      const conversation = await this.prisma.conversation.findUnique({
+        where: { id: conversationId },
+        select: { projectId: true },
+      });
+      projectId = conversation?.projectId;
+    }
+
+    const estimatedCost = this.estimateCost(entry.provider, entry.model, entry.promptTokens, entry.completionTokens);
+
+    await this.prisma.llmUsage.create({
+      data: {
+        provider: entry.provider,
+        model: entry.model,
+        endpoint: entry.endpoint,
+        agentId,
+        conversationId,
+        projectId,
+        promptTokens: entry.promptTokens,
+        completionTokens: entry.completionTokens,
+        totalTokens: entry.totalTokens,
+        latencyMs: entry.latencyMs,
+        estimatedCost,
+        streamed: entry.streamed,
+      },
+    });
+
+    if (this.io && conversationId) {
+      this.io.to(`conversation:${conversationId}`).emit('usage-updated', {
+        conversationId,
+        totals: await this.getTotals({ conversationId }),
+      });
+    }
+  }
+
+  estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number {
+    // Local and self-hosted models are free to run
+    if (provider === 'ollama' || provider === 'openai-compatible') {
+      return 0;
+    }
+
+    const prefix = Object.keys(MODEL_PRICING)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!prefix) {
+      return 0;
+    }
+
+    const pricing = MODEL_PRICING[prefix];
+    return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+  }
+
+  async getTotals(filter: UsageFilter = {}): Promise<UsageTotals> {
+    const result = await this.prisma.llmUsage.aggregate({
+      where: this.buildWhere(filter),
+      _count: { _all: true },
+      _sum: { promptTokens: true, completionTokens: true, totalTokens: true, estimatedCost: true },
+      _avg: { latencyMs: true },
+    });
+
+    return {
+      calls: result._count._all,
+      promptTokens: result._sum.promptTokens || 0,
+      completionTokens: result._sum.completionTokens || 0,
+      totalTokens: result._sum.totalTokens || 0,
+      estimatedCost: result._sum.estimatedCost || 0,
+      averageLatencyMs: Math.round(result._avg.latencyMs || 0),
+    };
+  }
+
+  async getBreakdown(dimension: UsageDimension, filter: UsageFilter = {}): Promise<UsageBreakdownRow[]> {
+    const field = DIMENSION_FIELDS[dimension];
+    const groups = await this.prisma.llmUsage.groupBy({
+      by: [field],
+      where: this.buildWhere(filter),
+      _count: { _all: true },
+      _sum: { promptTokens: true, completionTokens: true, totalTokens: true, estimatedCost: true },
+      _avg: { latencyMs: true },
+    });
+
+    return groups
+      .map((group: any) => ({
+        key: group[field] ?? null,
+        calls: group._count._all,
+        promptTokens: group._sum.promptTokens || 0,
+        completionTokens: group._sum.completionTokens || 0,
+        totalTokens: group._sum.totalTokens || 0,
+        estimatedCost: group._sum.estimatedCost || 0,
+        averageLatencyMs: Math.round(group._avg.latencyMs || 0),
+      }))
+      .sort((a: UsageBreakdownRow, b: UsageBreakdownRow) => b.totalTokens - a.totalTokens);
+  }
+
+  isDimension(value: string): value is UsageDimension {
+    return value in DIMENSION_FIELDS;
+  }
+
+  private buildWhere(filter: UsageFilter) {
+    return {
+      ...(filter.agentId && { agentId: filter.agentId }),
+      ...(filter.conversationId && { conversationId: filter.conversationId }),
+      ...(filter.projectId && { projectId: filter.projectId }),
+      ...(filter.provider && { provider: filter.provider }),
+      ...(filter.since && { createdAt: { gte: filter.since } }),
+    };
+  }
+}
@@ -219,6 +219,7 @@ Respond as ${agent.name} (${agent.role}):`;
         provider: agent.config.llmProvider as 'openai' | 'anthropic' | 'ollama',
         temperature: agent.config.temperature,
         maxTokens: agent.config.maxTokens,
+        context: { agentId: agent.id, conversationId: this.conversationId },
       },
       (chunk) => {
         responseContent += chunk;
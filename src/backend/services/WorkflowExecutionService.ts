@@ -0,0 +1,319 @@
+import { PrismaClient } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { ExecutionLog, WorkflowExecution } from '../../shared/types';
+
+export interface ExecutionFilter {
+  status?: WorkflowExecution['status'];
+  conversationId?: string;
+  workflowId?: string;
+  limit?: number;
+}
+
+interface LiveExecution {
+  execution: WorkflowExecution;
+  agentStarts: Map<string, number>;
+  phaseStartedAt: number;
+  turns: number;
+  successfulTurns: number;
+  cpuAtStart: NodeJS.CpuUsage;
+}
+
+const MAX_LOGS = 200;
+const MAX_LISTED = 100;
+
+/**
+ * Execution records for workflow runs: status, timings per agent and phase, iterations, errors
+ * and logs. Running executions live in memory and are broadcast as `execution-updated` on
+ * every change; each change is also stored, so finished executions can be listed later.
+ * Nothing here throws into the workflow; storage failures are only logged.
+ */
+export class WorkflowExecutionService {
+  private live = new Map<string, LiveExecution>();
+  private saves = new Map<string, Promise<void>>();
+  private queuedSaves = new Set<string>();
+
+  constructor(
+    private prisma: PrismaClient,
+    private io?: SocketIOServer
+  ) {}
+
+  start(conversationId: string, workflowId: string, phase: string): WorkflowExecution {
+    const now = Date.now();
+    const execution: WorkflowExecution = {
+      id: `exec-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      workflowId,
+      conversationId,
+      status: 'running',
+      startTime: new Date(now).toISOString(),
+      iterations: 0,
+      currentPhase: phase,
+      metrics: {
+        totalIterations: 0,
+        averageIterationTime: 0,
+        agentExecutionTimes: {},
+        phaseExecutionTimes: {},
+        errorCount: 0,
+        successRate: 0,
+        resourceUsage: { memory: 0, cpu: 0, network: 0 },
+      },
+      logs: [],
+    };
+
+    this.live.set(execution.id, {
+      execution,
+      agentStarts: new Map(),
+      phaseStartedAt: now,
+      turns: 0,
+      successfulTurns: 0,
+      cpuAtStart: process.cpuUsage(),
+    });
+    this.log(execution.id, 'info', `Started ${workflowId}`);
+    return execution;
+  }
+
+  agentStarted(executionId: string | undefined, agentId: string, phase: string): void {
+    const entry = executionId && this.live.get(executionId);
+    if (!entry) return;
+
+    this.enterPhase(entry, phase);
+    entry.agentStarts.set(agentId, Date.now());
+    entry.execution.currentAgent = agentId;
+    this.addLog(entry, { level: 'info', agent: agentId, phase, message: `${agentId} started` });
+    this.update(entry);
+  }
+
+  /**
+   * One agent turn is over. Skipped turns count towards neither timings nor the success rate.
+   */
+  agentFinished(
+    executionId: string | undefined,
+    agentId: string,
+    phase: string,
+    status: 'success' | 'error' | 'skipped',
+    detail?: string
+  ): void {
+    const entry = executionId && this.live.get(executionId);
+    if (!entry) return;
+
+    const { execution } = entry;
+    const { metrics } = execution;
+    const startedAt = entry.agentStarts.get(agentId);
+    entry.agentStarts.delete(agentId);
+    this.enterPhase(entry, phase);
+
+    if (status !== 'skipped') {
+      const elapsed = startedAt !== undefined ? Date.now() - startedAt : 0;
+      metrics.agentExecutionTimes[agentId] = (metrics.agentExecutionTimes[agentId] || 0) + elapsed;
+      metrics.averageIterationTime = Math.round((metrics.averageIterationTime * entry.turns + elapsed) / (entry.turns + 1));
+      entry.turns++;
+      execution.iterations = entry.turns;
+      metrics.totalIterations = entry.turns;
+      if (status === 'success') {
+        entry.successfulTurns++;
+      } else {
+        metrics.errorCount++;
+        execution.error = detail;
+      }
+      metrics.successRate = entry.successfulTurns / entry.turns;
+    }
+    if (execution.currentAgent === agentId) {
+      execution.currentAgent = entry.agentStarts.keys().next().value;
+    }
+
+    this.addLog(entry, {
+      level: status === 'error' ? 'error' : status === 'skipped' ? 'warn' : 'info',
+      agent: agentId,
+      phase,
+      message: status === 'success' ? `${agentId} finished` : `${agentId} ${status === 'error' ? 'failed' : 'was skipped'}`,
+      ...(detail && { data: { detail } }),
+    });
+    this.update(entry);
+  }
+
+  /**
+   * Count a model request towards the run's network usage
+   */
+  recordModelCall(executionId: string | undefined): void {
+    const entry = executionId && this.live.get(executionId);
+    if (!entry) return;
+
+    entry.execution.metrics.resourceUsage.network++;
+    this.update(entry);
+  }
+
+  /**
+   * Paused while the run waits for a person, running again once they decide
+   */
+  setPaused(executionId: string | undefined, paused: boolean, reason: string): void {
+    const entry = executionId && this.live.get(executionId);
+    if (!entry || entry.execution.status === (paused ? 'paused' : 'running')) return;
+
+    entry.execution.status = paused ? 'paused' : 'running';
+    this.addLog(entry, { level: 'info', message: reason });
+    this.update(entry);
+  }
+
+  log(executionId: string | undefined, level: ExecutionLog['level'], message: string, details: Omit<ExecutionLog, 'timestamp' | 'level' | 'message'> = {}): void {
+    const entry = executionId && this.live.get(executionId);
+    if (!entry) return;
+
+    this.addLog(entry, { level, message, ...details });
+    this.update(entry);
+  }
+
+  finish(executionId: string | undefined, status: 'completed' | 'failed' | 'cancelled', phase: string, error?: string): void {
+    const entry = executionId && this.live.get(executionId);
+    if (!entry) return;
+
+    const { execution } = entry;
+    this.enterPhase(entry, phase);
+    execution.status = status;
+    execution.endTime = new Date().toISOString();
+    execution.duration = Date.parse(execution.endTime) - Date.parse(execution.startTime);
+    execution.currentAgent = undefined;
+    if (error) {
+      execution.error = error;
+    }
+    this.addLog(entry, {
+      level: status === 'failed' ? 'error' : 'info',
+      message: `Run ${status} after ${execution.iterations} iterations`,
+      ...(error && { data: { error } }),
+    });
+    this.update(entry);
+    this.live.delete(executionId!);
+  }
+
+  /**
+   * Fail executions a previous run of the server left running; call at startup
+   */
+  async failAbandoned(): Promise<number> {
+    const { count } = await this.prisma.workflowExecution.updateMany({
+      where: { status: { in: ['running', 'paused'] } },
+      data: { status: 'failed', error: 'The server restarted during the run', currentAgent: null, endTime: new Date() },
+    });
+    return count;
+  }
+
+  async list(filter: ExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    const records = await this.prisma.workflowExecution.findMany({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.conversationId && { conversationId: filter.conversationId }),
+        ...(filter.workflowId && { workflowId: filter.workflowId }),
+      },
+      orderBy: { startTime: 'desc' },
+      take: Math.min(filter.limit || MAX_LISTED, MAX_LISTED),
+    });
+    // Running executions may be ahead of what's stored
+    return records.map((record: any) => this.live.get(record.id)?.execution || this.toExecution(record));
+  }
+
+  async get(executionId: string): Promise<WorkflowExecution | null> {
+    const live = this.live.get(executionId);
+    if (live) {
+      return live.execution;
+    }
+    const record = await this.prisma.workflowExecution.findUnique({ where: { id: executionId } });
+    return record ? this.toExecution(record) : null;
+  }
+
+  /**
+   * Helper: Book the time spent in the phase the run is leaving
+   */
+  private enterPhase(entry: LiveExecution, phase: string): void {
+    const { execution } = entry;
+    const now = Date.now();
+    const times = execution.metrics.phaseExecutionTimes;
+    times[execution.currentPhase] = (times[execution.currentPhase] || 0) + now - entry.phaseStartedAt;
+    entry.phaseStartedAt = now;
+
+    if (phase !== execution.currentPhase) {
+      this.addLog(entry, { level: 'info', phase, message: `Entered phase ${phase}` });
+      execution.currentPhase = phase;
+    }
+  }
+
+  private addLog(entry: LiveExecution, log: Omit<ExecutionLog, 'timestamp'>): void {
+    const { logs } = entry.execution;
+    logs.push({ timestamp: new Date().toISOString(), ...log });
+    if (logs.length > MAX_LOGS) {
+      logs.splice(0, logs.length - MAX_LOGS);
+    }
+  }
+
+  /**
+   * Helper: Refresh resource usage, broadcast the execution and store it
+   */
+  private update(entry: LiveExecution): void {
+    const { execution } = entry;
+    const usage = execution.metrics.resourceUsage;
+    const cpu = process.cpuUsage(entry.cpuAtStart);
+    usage.cpu = Math.round((cpu.user + cpu.system) / 1000); // ms of process CPU time since the run started
+    usage.memory = Math.max(usage.memory, Math.round(process.memoryUsage().heapUsed / (1024 * 1024))); // Peak heap MB
+
+    this.io?.to(`conversation:${execution.conversationId}`).emit('execution-updated', execution);
+    this.save(execution);
+  }
+
+  /**
+   * Helper: Store the latest version of an execution. Saves for one execution run one at a
+   * time; changes made while one is in flight are written together by the next.
+   */
+  private save(execution: WorkflowExecution): void {
+    if (this.queuedSaves.has(execution.id)) return;
+    this.queuedSaves.add(execution.id);
+
+    const previous = this.saves.get(execution.id) || Promise.resolve();
+    const save = previous
+      .then(() => {
+        this.queuedSaves.delete(execution.id);
+        const data = {
+          workflowId: execution.workflowId,
+          conversationId: execution.conversationId,
+          status: execution.status,
+          currentPhase: execution.currentPhase,
+          currentAgent: execution.currentAgent || null,
+          iterations: execution.iterations,
+          error: execution.error || null,
+          metrics: JSON.stringify(execution.metrics),
+          logs: JSON.stringify(execution.logs),
+          startTime: new Date(execution.startTime),
+          endTime: execution.endTime ? new Date(execution.endTime) : null,
+          duration: execution.duration ?? null,
+        };
+        return this.prisma.workflowExecution.upsert({
+          where: { id: execution.id },
+          create: { id: execution.id, ...data },
+          update: data,
+        });
+      })
+      .then(() => undefined)
+      .catch((error: any) => {
+        console.warn(`⚠️ [EXECUTION] Could not save execution ${execution.id}:`, error.message);
+      })
+      .finally(() => {
+        if (this.saves.get(execution.id) === save) {
+          this.saves.delete(execution.id);
+        }
+      });
+    this.saves.set(execution.id, save);
+  }
+
+  private toExecution(record: any): WorkflowExecution {
+    return {
+      id: record.id,
+      workflowId: record.workflowId,
+      conversationId: record.conversationId,
+      status: record.status,
+      startTime: record.startTime.toISOString(),
+      endTime: record.endTime ? record.endTime.toISOString() : undefined,
+      duration: record.duration ?? undefined,
+      iterations: record.iterations,
+      currentPhase: record.currentPhase,
+      currentAgent: record.currentAgent || undefined,
+      error: record.error || undefined,
+      metrics: JSON.parse(record.metrics),
+      logs: JSON.parse(record.logs),
+    };
+  }
+}
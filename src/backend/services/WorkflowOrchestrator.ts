@@ -1,5 +1,3 @@
-import { ChatOllama } from "@langchain/ollama";
-import { HumanMessage } from "@langchain/core/messages";
 import { 
   WorkflowState, 
   WorkflowStep, 
@@ -7,7 +5,18 @@ import {
   WorkflowConfig,
   Message,
   Agent,
-  WorkflowMode
+  WorkflowMode,
+  ModelInfo,
+  LLMPriority,
+  MessageStreamDelta,
+  MessageStreamEnd,
+  TeamDefinition,
+  WorkflowTemplate,
+  WorkflowPhase,
+  ApprovalGate,
+  WorkflowApproval,
+  WorkflowRunStep,
+  QueuePolicy
 } from "../../shared/types";
 
 // Extended Agent interface for backend use
@@ -17,6 +26,18 @@ interface BackendAgent extends Agent {
   avatar?: string;
 }
 import { PrismaClient } from "@prisma/client";
+import { LLMService, LLMConfig, LLMAttempt, LLMCancelledError, ChatMessage, ResponseFormat, ToolCall, ToolDefinition } from "./LLMService";
+import { JSONSchema, StructuredOutputError, parseStructuredOutput, readPartialStringField } from "./StructuredOutput";
+import { ContextBudgeter, ContextBudgetReport, BudgetItem } from "./ContextBudgeter";
+import { ContextAssembler } from "./ContextAssembler";
+import { ModelRegistry, ModelCapabilityError } from "./ModelRegistry";
+import { ConversationService, CreateMessageDto } from "./ConversationService";
+import { TeamService } from "./TeamService";
+import { ApprovalService, ApprovalRequest } from "./ApprovalService";
+import { WorkflowRunService } from "./WorkflowRunService";
+import { WorkflowExecutionService } from "./WorkflowExecutionService";
+import { WorkflowBuilder } from "./WorkflowBuilder";
+import { WorkflowValidator } from "./WorkflowValidator";
 
 // ===== ENHANCED TYPES =====
 export interface SharedWorkflowState {
@@ -37,13 +58,11 @@ export interface SharedWorkflowState {
     blockers: string[];
   };
   
-  // Agent contributions to shared state
-  agentContributions: {
-    coordinator?: AgentContribution;
-    designer?: AgentContribution;
-    'frontend-developer'?: AgentContribution;
-    'backend-developer'?: AgentContribution;
-  };
+  // Agent contributions to shared state, by agent ID
+  agentContributions: Record<string, AgentContribution>;
+  
+  // Team running the full workflow
+  team?: TeamDefinition;
   
   // Flow control
   activeAgents: string[];
@@ -54,7 +73,31 @@ export interface SharedWorkflowState {
   // Messages for UI
   messages: Message[];
   error?: string;
-  workflowMode?: 'solo' | 'mini-workflow' | 'full-workflow';
+  cancelled?: boolean;
+  workflowMode?: 'solo' | 'mini-workflow' | 'full-workflow' | 'template';
+  
+  // Progress of a workflow template run
+  template?: TemplateRun;
+  
+  // Where this run waits for a person's approval
+  approvalGates?: ApprovalGate[];
+  
+  // Saved run this state belongs to
+  runId?: string;
+  
+  // Execution record tracking this run's progress
+  executionId?: string;
+  
+  // The message that started the run; left out of the history agents see
+  requestMessageId?: string;
+}
+
+export interface TemplateRun {
+  templateId: string;
+  name: string;
+  phase: string;
+  iterations: number;
+  maxIterations: number;
 }
 
 export interface AgentContribution {
@@ -82,37 +125,272 @@ export interface AgentContribution {
   
   // Internal reasoning (not shown to user)
   reasoning?: string;
+  
+  // Template runs: whether the agent considers the current phase done
+  phaseComplete?: boolean;
+  
+  // Provider and model that actually produced this contribution
+  producedBy?: AgentReplySource;
+  
+  // How the prompt was fitted into the model's context window
+  contextBudget?: ContextBudgetReport;
+}
+
+const STRING_LIST_SCHEMA: JSONSchema = { type: 'array', items: { type: 'string' } };
+
+// Shape agents must answer with in the full workflow; sent to the provider's JSON mode
+export const AGENT_CONTRIBUTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    knowledgeUpdates: {
+      type: 'object',
+      properties: {
+        requirements: STRING_LIST_SCHEMA,
+        decisions: STRING_LIST_SCHEMA,
+        tasks: STRING_LIST_SCHEMA,
+        blockers: STRING_LIST_SCHEMA
+      },
+      additionalProperties: STRING_LIST_SCHEMA
+    },
+    dependsOn: STRING_LIST_SCHEMA,
+    enablesAgents: STRING_LIST_SCHEMA,
+    message: { type: 'string', minLength: 1 },
+    reasoning: { type: 'string' },
+    phaseComplete: { type: 'boolean' }
+  },
+  required: ['knowledgeUpdates', 'dependsOn', 'enablesAgents', 'message']
+};
+
+// Built-in prompts for the web team roles; members with their own rolePrompt use that instead.
+// {{request}} is replaced with the user's request.
+const ROLE_PROMPT_TEMPLATES: Record<string, string> = {
+  coordinator: `As PROJECT COORDINATOR, analyze "{{request}}" and provide collaborative direction for the team.
+
+RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual analysis):
+{
+  "knowledgeUpdates": {
+    "requirements": ["Create a visually appealing landing page", "Use vibrant colors and modern design", "Ensure responsive layout"],
+    "decisions": ["Use modern CSS framework", "Implement smooth animations", "Focus on user engagement"],
+    "tasks": ["Design wireframes", "Create color palette", "Plan responsive breakpoints"]
+  },
+  "dependsOn": [],
+  "enablesAgents": ["designer", "frontend-developer", "backend-developer"],
+  "message": "Based on the user request, our team will need to collaborate on creating a beautiful, vibrant 'Hello World' page. I need @designer to help us define the color palette and typography for this page. Then, @frontend can start building the basic HTML structure and styling it with CSS. Finally, @backend can help us integrate any necessary API calls or database interactions for our 'Hello World' message. Let's work together to create a stunning page!",
+  "reasoning": "The user wants a beautiful and vibrant page, so I'm coordinating natural collaboration between design, frontend, and backend specialists."
+}`,
+
+  designer: `As UI/UX DESIGNER, based on the coordinator's analysis of "{{request}}", provide collaborative design recommendations.
+
+RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual design analysis):
+{
+  "knowledgeUpdates": {
+    "decisions": ["Use gradient backgrounds for vibrancy", "Implement glassmorphism effects", "Choose bold typography"],
+    "tasks": ["Create color palette with vibrant hues", "Design hero section with animations", "Plan interactive elements"],
+    "requirements": ["Ensure accessibility compliance", "Optimize for mobile devices", "Include loading animations"]
+  },
+  "dependsOn": ["coordinator"],
+  "enablesAgents": ["frontend-developer"],
+  "message": "Based on the shared knowledge and user request, I propose a design approach that prioritizes simplicity and ease of use. The layout will be clean and uncluttered, with clear calls to action and sufficient white space to guide the user's eye. The color scheme will be vibrant and consistent throughout, with accent colors used sparingly to draw attention to important elements. I will work closely with @frontend to ensure that the design is implemented correctly and meets the user's needs.",
+  "reasoning": "The user wants 'beautiful and vibrant', so I'm focusing on modern design trends while ensuring the design works well with frontend implementation."
+}`,
+
+  'frontend-developer': `As FRONTEND DEVELOPER, based on the coordinator's requirements and designer's decisions for "{{request}}", provide collaborative technical implementation details.
+
+RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual technical analysis):
+{
+  "knowledgeUpdates": {
+    "decisions": ["Use React with TypeScript", "Implement CSS-in-JS for dynamic styling", "Add Framer Motion for animations"],
+    "integrationPoints": ["API endpoint for dynamic content", "WebSocket for real-time updates"],
+    "tasks": ["Set up React project structure", "Create reusable components", "Implement responsive design"]
+  },
+  "dependsOn": ["coordinator", "designer"],
+  "enablesAgents": ["backend-developer"],
+  "message": "I will build on the design and requirements provided, using a modular and scalable frontend approach. I will ensure that the design is consistent across different pages and elements, and that the user experience is intuitive and easy to navigate. I will also consider integration with @backend services and data sources to enhance the functionality of the page.",
+  "reasoning": "React provides the flexibility needed for a vibrant, interactive page, TypeScript ensures code quality, and I need to coordinate with backend for API integration."
+}`,
+
+  'backend-developer': `As BACKEND DEVELOPER, based on all previous team contributions for "{{request}}", provide collaborative backend implementation details.
+
+RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual backend analysis):
+{
+  "knowledgeUpdates": {
+    "decisions": ["Use Node.js with Express", "Implement RESTful API", "Add WebSocket support"],
+    "integrationPoints": ["Content management API", "Real-time messaging system"],
+    "tasks": ["Set up Express server", "Create API endpoints", "Implement WebSocket connections"],
+    "completedTasks": ["Technical analysis complete"]
+  },
+  "dependsOn": ["coordinator", "designer", "frontend-developer"],
+  "enablesAgents": [],
+  "message": "Based on the frontend requirements and design specifications, I'll implement a Node.js Express server with RESTful API endpoints for content management and WebSocket support for real-time features. The backend will provide the necessary infrastructure to support the vibrant, interactive frontend experience, including API endpoints for dynamic content and real-time messaging capabilities.",
+  "reasoning": "Node.js with Express provides the performance and flexibility needed, while WebSocket support enables real-time interactions that enhance the vibrant user experience."
+}`
+};
+
+const DEFAULT_ROLE_PROMPT = 'As {{role}}, contribute your expertise to "{{request}}" and hand off to the team members who should continue.';
+
+// Appended to custom role prompts, which only describe what the member does
+const CONTRIBUTION_FORMAT_PROMPT = `RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual contribution):
+{
+  "knowledgeUpdates": {
+    "requirements": ["Requirements you identified"],
+    "decisions": ["Decisions you made"],
+    "tasks": ["Tasks that still need doing"]
+  },
+  "dependsOn": [],
+  "enablesAgents": ["ID of each team member who should continue after you"],
+  "message": "Your contribution, written for the team and the user",
+  "reasoning": "Why you made these decisions"
+}`;
+
+// Roles of the web team that runs when a conversation has no team of its own
+const DEFAULT_TEAM_ROLES = ['coordinator', 'designer', 'frontend-developer', 'backend-developer'];
+
+// Roles each default team role waits for in a round: the frontend builds on the design and the API
+const DEFAULT_TEAM_DEPENDENCIES: Record<string, string[]> = {
+  'frontend-developer': ['designer', 'backend-developer']
+};
+
+// An agent ran out of tool rounds without writing a reply
+export class EmptyReplyError extends Error {
+  constructor(public agentId: string, public toolRounds: number) {
+    super(`Agent ${agentId} gave no answer after ${toolRounds} rounds of tool calls`);
+    this.name = 'EmptyReplyError';
+  }
 }
 
+// Provider/model that answered an agent call, plus any failed attempts before it
+interface AgentReplySource {
+  provider: string;
+  model: string;
+  endpoint?: string;
+  attempts?: LLMAttempt[];
+}
+
+interface AgentReply extends AgentReplySource {
+  content: string;
+}
+
+// Emits one agent reply to the conversation as it is generated
+interface ReplyStream {
+  onContent: (content: string) => void;
+  end: (status: MessageStreamEnd['status']) => void;
+}
+
+// Held by the run processing a conversation; other messages wait or interrupt it per the queue policy
+interface ProcessingLock {
+  conversationId: string;
+  holder: string; // Message or resumed run being processed
+  timestamp: number; // Last progress; locks idle for longer than timeout are reported as stuck
+  timeout: number;
+  cancellation: AbortController;
+  finished: Promise<void>;
+  finish: () => void;
+}
 
+// A message waiting for the lock, settled with the state of its run once it has one
+interface QueuedMessage {
+  message: Message;
+  resolve: (state: SharedWorkflowState) => void;
+  reject: (error: any) => void;
+}
+
+
+
+// Tool that agents can call through their LLM provider's function calling
+export interface AgentTool {
+  id: string; // Also used as the function name exposed to the model
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema for the tool arguments
+  sensitive?: boolean; // Every call waits for a person's approval
+  execute: (params: any, agentId: string, context: ToolExecutionContext) => Promise<any>;
+}
+
+export interface ToolExecutionContext {
+  conversationId?: string;
+}
 
 // ===== ENHANCED WORKFLOW ORCHESTRATOR =====
 export class WorkflowOrchestrator {
-  private teamAgents: string[] = [];
   private agentInfo: BackendAgent[] = [];
   private agents = new Map<string, BackendAgent>(); // Agent management
-  private tools = new Map<string, any>(); // Tool management
-  private llm: ChatOllama;
+  private tools = new Map<string, AgentTool>(); // Tool management
+  private readonly maxToolRounds = 5; // Tool call round-trips per agent reply
+  private readonly maxRepairAttempts = 2; // Follow-up requests to fix invalid structured output
+  private contextBudgeter = new ContextBudgeter();
+  private contextAssembler?: ContextAssembler; // Channel history and memory for prompts
+  private priorContexts = new Map<string, BudgetItem[]>(); // conversationId -> context from before the in-flight run
+  private llmService: LLMService;
+  private modelRegistry: ModelRegistry;
   private prisma: PrismaClient;
   private io?: any; // Socket.IO instance for streaming
+  private conversationService?: ConversationService; // Persists workflow messages
+  private teamService?: TeamService; // Teams attached to conversations
+  private approvalService?: ApprovalService; // Pauses runs at approval gates
+  private runService?: WorkflowRunService; // Saves runs after every agent turn
+  private executionService?: WorkflowExecutionService; // Tracks timings and progress of runs
+  private workflowBuilder?: WorkflowBuilder; // Source of published workflow templates
+  private workflowValidator = new WorkflowValidator();
+  private readonly maxTemplatePhasePasses = 3; // Runs of one node within a template phase before moving on
+  private agentDependencies = new Map<string, Record<string, string[]>>(); // conversationId -> agentId -> agents it last said it depends on
   private conversationStates: Map<string, SharedWorkflowState> = new Map();
   
   // Enhanced state tracking (moved from AgentOrchestrator)
-  private activeProcessing = new Map<string, any>();
+  private activeProcessing = new Map<string, ProcessingLock>(); // conversationId -> lock of the run in progress
+  private messageQueues = new Map<string, QueuedMessage[]>(); // Messages waiting for the lock, oldest first
+  private defaultQueuePolicy: QueuePolicy = 'fifo';
+  private readonly lockTimeoutMs = 15 * 60 * 1000;
   private messageHistory = new Map<string, Set<string>>();
-  private conversationCycles = new Map<string, number>();
-  private recentResponders = new Map<string, Set<string>>();
+  private conversationCycles = new Map<string, number>(); // conversationId -> follow-up turns @mentions started in the in-flight run
+  private recentResponders = new Map<string, string[]>(); // conversationId -> "from>to" for each of those turns, oldest first
+  private readonly maxMentionTurns = 6; // Follow-up turns agents can start with @mentions per run
+  private readonly maxPairTurns = 3; // Of those, turns two agents can pass back and forth between them
   private conversationModes = new Map<string, any>();
+  private cancellationTokens = new Map<string, AbortController>(); // In-flight run per conversation
+  private runningStates = new Map<string, SharedWorkflowState>(); // State of the in-flight run per conversation
   
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, llmService: LLMService, modelRegistry?: ModelRegistry) {
     this.prisma = prisma;
-    // Initialize with a default model, will be overridden per agent
-    this.llm = new ChatOllama({ model: "llama3" });
+    // All agent calls go through LLMService so each agent runs on its configured provider
+    this.llmService = llmService;
+    this.modelRegistry = modelRegistry || new ModelRegistry(prisma, llmService);
   }
   
   setSocketIO(io: any) {
     this.io = io;
   }
+
+  setConversationService(conversationService: ConversationService) {
+    this.conversationService = conversationService;
+  }
+
+  setTeamService(teamService: TeamService) {
+    this.teamService = teamService;
+  }
+
+  setApprovalService(approvalService: ApprovalService) {
+    this.approvalService = approvalService;
+  }
+
+  setWorkflowRunService(runService: WorkflowRunService) {
+    this.runService = runService;
+  }
+
+  setWorkflowExecutionService(executionService: WorkflowExecutionService) {
+    this.executionService = executionService;
+  }
+
+  setDefaultQueuePolicy(policy: QueuePolicy) {
+    this.defaultQueuePolicy = policy;
+  }
+
+  setContextAssembler(contextAssembler: ContextAssembler) {
+    this.contextAssembler = contextAssembler;
+  }
+
+  setWorkflowBuilder(workflowBuilder: WorkflowBuilder) {
+    this.workflowBuilder = workflowBuilder;
+  }
   
   setAgents(agents: Agent[]) {
     // Convert Agent[] to BackendAgent[] with default values
@@ -123,18 +401,14 @@ export class WorkflowOrchestrator {
       avatar: agent.avatar
     }));
     
-    this.teamAgents = this.agentInfo
-      .filter(agent => ['coordinator', 'designer', 'frontend-developer', 'backend-developer'].includes(agent.role))
-      .map(agent => agent.id);
-    
-    console.log('🔧 [WORKFLOW] Set agents:', this.teamAgents);
     console.log('🔧 [WORKFLOW] Agent info:', this.agentInfo.map(a => `${a.name} (${a.role})`));
   }
 
   /**
-   * Enhanced mention parsing that handles various formats and edge cases
+   * Enhanced mention parsing that handles various formats and edge cases.
+   * With explicitOnly, only @mentions count, not agent names or roles in the text.
    */
-  private parseMentions(content: string): string[] {
+  private parseMentions(content: string, explicitOnly: boolean = false): string[] {
     const mentionedAgentIds: string[] = [];
     
     console.log(`🔍 [MENTIONS] Parsing content: "${content}"`);
@@ -157,7 +431,7 @@ export class WorkflowOrchestrator {
     }
 
     // Method 2: Fallback - look for agent names/roles without @ (only if no @ mentions found)
-    if (mentionedAgentIds.length === 0) {
+    if (mentionedAgentIds.length === 0 && !explicitOnly) {
       console.log(`🔍 [MENTIONS] No @ mentions found, checking for agent names/roles in content`);
       for (const agent of this.agentInfo) {
         const agentNameLower = agent.name.toLowerCase();
@@ -239,22 +513,20 @@ export class WorkflowOrchestrator {
   /**
    * Enhanced processing mode determination with clearer logic
    */
-  private determineProcessingMode(mentionedAgents: string[], content: string): WorkflowMode {
+  private determineProcessingMode(mentionedAgents: string[], content: string, team: TeamDefinition | null): WorkflowMode {
     console.log(`🔍 [MODE] Determining mode for ${mentionedAgents.length} mentions`);
     
     // Check if this is a team conversation (multiple agents available)
-    const availableAgents = this.agentInfo.filter(a => 
-      ['coordinator', 'designer', 'frontend-developer', 'backend-developer'].includes(a.role)
-    );
+    const availableAgents = team ? this.getTeamAgents(team) : [];
     
     // If we have multiple agents available and no specific mentions, start full team workflow
     if (mentionedAgents.length === 0 && availableAgents.length > 1) {
-      const coordinatorId = this.getAgentIdByRole('coordinator');
+      const lead = availableAgents.find(a => a.id === team!.leadAgentId) || availableAgents[0];
       return {
         type: 'full-workflow',
-        agents: coordinatorId ? [coordinatorId] : [],
+        agents: [lead.id],
         maxRounds: 4,
-        reason: 'Team conversation detected - starting full team workflow'
+        reason: `Team conversation detected - starting full workflow for ${team!.name}`
       };
     }
     
@@ -323,34 +595,47 @@ export class WorkflowOrchestrator {
    * Main entry point - simplified message processing
    */
   async processMessage(message: Message): Promise<SharedWorkflowState> {
+    const { conversationId } = message;
+    if (this.activeProcessing.has(conversationId)) {
+      const policy = await this.resolveQueuePolicy(conversationId);
+      // The running workflow may have finished while the policy loaded
+      if (this.activeProcessing.has(conversationId)) {
+        return this.queueMessage(message, policy);
+      }
+    }
+    return this.runMessage(message);
+  }
+
+  /**
+   * Helper: Process a message while holding the conversation's lock
+   */
+  private async runMessage(message: Message): Promise<SharedWorkflowState> {
     console.log('🚀 [WORKFLOW] Starting message processing...');
     console.log(`📝 [WORKFLOW] Message content: "${message.content}"`);
     
+    // Cancellation token for this run; cancelWorkflow() aborts it
+    const cancellation = this.lockConversation(message.conversationId, message.id);
+    
     try {
       // Step 1: Parse mentions with validation
       const rawMentions = this.parseMentions(message.content);
       const validMentions = this.validateMentionedAgents(rawMentions);
       console.log(`🎯 [WORKFLOW] Valid mentions: ${validMentions.join(', ')}`);
       
-      // Step 2: Determine workflow mode
-      const workflowMode = this.determineProcessingMode(validMentions, message.content);
+      // Step 2: Determine workflow mode; a bound or requested template takes over from the built-in modes
+      const team = await this.resolveTeam(message.conversationId);
+      const template = await this.resolveTemplate(message, validMentions);
+      const workflowMode: WorkflowMode = template
+        ? { type: 'template', agents: [], maxRounds: 1, reason: `Running workflow template ${template.name}` }
+        : this.determineProcessingMode(validMentions, message.content, team);
       console.log(`⚙️ [WORKFLOW] Mode: ${workflowMode.type} - ${workflowMode.reason}`);
       
       // Step 3: Initialize state
-      const state = this.initializeWorkflowState(message, workflowMode);
+      const state = this.initializeWorkflowState(message, workflowMode, team);
+      await this.startRunRecord(state, message.id);
       
       // Step 4: Execute workflow based on mode
-      switch (workflowMode.type) {
-        case 'solo':
-          await this.executeSoloMode(state);
-          break;
-        case 'mini-workflow':
-          await this.executeMiniWorkflow(state);
-          break;
-        case 'full-workflow':
-          await this.executeFullWorkflow(state);
-          break;
-      }
+      await this.executeWorkflow(state, template || undefined);
       
       console.log(`✅ [WORKFLOW] Processing complete. Final state: ${state.phase}`);
       return state;
@@ -358,47 +643,149 @@ export class WorkflowOrchestrator {
       console.error('❌ [WORKFLOW] Error in processMessage:', error);
       
       // Return a state with error information
-      const errorState: SharedWorkflowState = {
+      const errorState = this.createEndedState(message, { error: error.message });
+
+      await this.publishMessage(errorState, {
+        id: `error-${Date.now()}`,
         conversationId: message.conversationId,
-        phase: 'complete',
-        userRequest: message.content,
-        sharedKnowledge: {
-          projectRequirements: '',
-          designDecisions: [],
-          technicalDecisions: [],
-          implementationNotes: [],
-          integrationPoints: [],
-          completedTasks: [],
-          blockers: []
-        },
-        agentContributions: {},
-        activeAgents: [],
-        nextAgents: [],
-        collaborationRound: 1,
-        maxRounds: 1,
-        messages: [{
-          id: `error-${Date.now()}`,
-          conversationId: message.conversationId,
-          senderId: 'system',
-          content: `Sorry, I encountered an error while processing your message: ${error.message}`,
-          type: 'text',
-          timestamp: new Date().toISOString(),
-          metadata: { error: true }
-        }],
-        error: error.message
-      };
+        senderId: 'system',
+        content: `Sorry, I encountered an error while processing your message: ${error.message}`,
+        type: 'text',
+        timestamp: new Date().toISOString(),
+        metadata: { error: true }
+      });
       
       return errorState;
+    } finally {
+      this.releaseConversation(message.conversationId, cancellation);
     }
   }
 
   /**
-   * Initialize workflow state based on mode
+   * Helper: Handle a message sent while the conversation's workflow runs, following the queue policy.
+   * Resolves once the message has been processed, or right away when it is superseded.
+   */
+  private queueMessage(message: Message, policy: QueuePolicy): Promise<SharedWorkflowState> {
+    const { conversationId } = message;
+    const lock = this.activeProcessing.get(conversationId)!;
+    const running = this.runningStates.get(conversationId);
+    
+    if (policy === 'interrupt' && running && this.injectUserMessage(running, message)) {
+      return lock.finished.then(() => running);
+    }
+    if (policy === 'latest-wins') {
+      this.dropQueuedMessages(conversationId, 'Superseded by a newer message');
+      this.cancelWorkflow(conversationId, 'Superseded by a newer message');
+    }
+    
+    return new Promise((resolve, reject) => {
+      const queue = this.messageQueues.get(conversationId) || [];
+      queue.push({ message, resolve, reject });
+      this.messageQueues.set(conversationId, queue);
+      
+      console.log(`📥 [QUEUE] Message ${message.id} queued behind ${lock.holder} (${policy}, position ${queue.length})`);
+      this.io?.to(`conversation:${conversationId}`).emit('message-queued', {
+        conversationId,
+        messageId: message.id,
+        position: queue.length,
+        policy,
+        timestamp: new Date().toISOString()
+      });
+    });
+  }
+
+  /**
+   * Helper: Add a user message to a running workflow: agents that haven't replied yet see it,
+   * and agents it mentions join the next round. Returns false when the run is too far along to take it.
+   */
+  private injectUserMessage(state: SharedWorkflowState, message: Message): boolean {
+    if (state.phase === 'complete' || state.cancelled || state.workflowMode === 'solo') {
+      return false;
+    }
+    
+    state.messages.push(message);
+    state.userRequest = `${state.userRequest}\n\nUpdate from the user: ${message.content}`;
+    const mentioned = this.validateMentionedAgents(this.parseMentions(message.content))
+      .filter(agentId => !state.nextAgents.includes(agentId) && !state.activeAgents.includes(agentId));
+    state.nextAgents.push(...mentioned);
+    
+    console.log(`📨 [QUEUE] Message ${message.id} added to the running workflow${mentioned.length > 0 ? `, bringing in ${mentioned.join(', ')}` : ''}`);
+    this.executionService?.log(state.executionId, 'info', 'User message added to the run', { data: { messageId: message.id } });
+    this.io?.to(`conversation:${state.conversationId}`).emit('message-injected', {
+      conversationId: state.conversationId,
+      messageId: message.id,
+      addedAgents: mentioned,
+      timestamp: new Date().toISOString()
+    });
+    return true;
+  }
+
+  /**
+   * Helper: Resolve the messages still waiting for the lock without processing them
+   */
+  private dropQueuedMessages(conversationId: string, reason: string): void {
+    const queue = this.messageQueues.get(conversationId) || [];
+    this.messageQueues.delete(conversationId);
+    
+    for (const queued of queue) {
+      console.log(`🗑️ [QUEUE] Dropping message ${queued.message.id}: ${reason}`);
+      this.io?.to(`conversation:${conversationId}`).emit('message-dropped', {
+        conversationId,
+        messageId: queued.message.id,
+        reason,
+        timestamp: new Date().toISOString()
+      });
+      queued.resolve(this.createEndedState(queued.message, { cancelled: true }));
+    }
+  }
+
+  private async resolveQueuePolicy(conversationId: string): Promise<QueuePolicy> {
+    try {
+      return await this.conversationService?.getQueuePolicy(conversationId) || this.defaultQueuePolicy;
+    } catch (error: any) {
+      console.warn(`⚠️ [QUEUE] Could not load the queue policy of ${conversationId}:`, error.message);
+      return this.defaultQueuePolicy;
+    }
+  }
+
+  /**
+   * Helper: Take the conversation's lock; returns the cancellation token of the run holding it
+   */
+  private lockConversation(conversationId: string, holder: string): AbortController {
+    const cancellation = new AbortController();
+    let finish!: () => void;
+    const finished = new Promise<void>(resolve => { finish = resolve; });
+    
+    this.activeProcessing.set(conversationId, {
+      conversationId,
+      holder,
+      timestamp: Date.now(),
+      timeout: this.lockTimeoutMs,
+      cancellation,
+      finished,
+      finish
+    });
+    this.cancellationTokens.set(conversationId, cancellation);
+    return cancellation;
+  }
+
+  /**
+   * Helper: The run holding the lock made progress, so it isn't stuck
    */
-  private initializeWorkflowState(message: Message, mode: WorkflowMode): SharedWorkflowState {
+  private touchLock(conversationId: string): void {
+    const lock = this.activeProcessing.get(conversationId);
+    if (lock) {
+      lock.timestamp = Date.now();
+    }
+  }
+
+  /**
+   * Helper: A state for a message that never ran, or whose run failed before it started
+   */
+  private createEndedState(message: Message, ending: Pick<SharedWorkflowState, 'error' | 'cancelled'>): SharedWorkflowState {
     return {
       conversationId: message.conversationId,
-      phase: 'analysis',
+      phase: 'complete',
       userRequest: message.content,
       sharedKnowledge: {
         projectRequirements: '',
@@ -411,88 +798,721 @@ export class WorkflowOrchestrator {
       },
       agentContributions: {},
       activeAgents: [],
-      nextAgents: mode.agents,
+      nextAgents: [],
       collaborationRound: 1,
-      maxRounds: mode.maxRounds,
+      maxRounds: 1,
       messages: [],
-      workflowMode: mode.type
+      ...ending
     };
   }
 
   /**
-   * Solo Mode: Single agent responds directly
+   * Run the state's workflow mode to the end, then save how the run finished
    */
-  private async executeSoloMode(state: SharedWorkflowState): Promise<void> {
-    console.log('🎯 [SOLO] Executing solo mode');
-    
-    if (state.nextAgents.length !== 1) {
-      throw new Error(`Solo mode requires exactly 1 agent, got ${state.nextAgents.length}`);
-    }
-
-    const agentId = state.nextAgents[0];
-    const agent = this.agentInfo.find(a => a.id === agentId);
+  private async executeWorkflow(state: SharedWorkflowState, template?: WorkflowTemplate): Promise<void> {
+    this.runningStates.set(state.conversationId, state);
+    state.executionId = this.executionService?.start(
+      state.conversationId,
+      template?.id || state.workflowMode || 'workflow',
+      this.getCurrentPhase(state)
+    ).id;
+    await this.loadPriorContext(state);
     
-    if (!agent) {
-      state.error = `Agent ${agentId} not found`;
-      state.phase = 'complete';
-      return;
-    }
-
     try {
-      console.log(`🤖 [SOLO] Processing agent: ${agent.name} (${agent.role})`);
-      
-      // Build solo prompt (no collaboration context needed)
-      const soloPrompt = this.buildSoloPrompt(agent, state.userRequest);
-      
-      // Get response from agent
-      const response = await this.callAgent(agent, soloPrompt);
-      
-      // Create message for UI
-      const message = {
-        id: `msg-${Date.now()}-${agentId}`,
-        conversationId: state.conversationId,
-        senderId: agentId,
-        content: response,
-        type: 'text' as const,
-        timestamp: new Date().toISOString(),
-        metadata: {
-          model: agent.config.model,
-          provider: agent.config.llmProvider,
-          workflowMode: 'solo',
-          directResponse: true
-        },
-        agent: {
-          id: agent.id,
-          name: agent.name,
-          avatar: agent.avatar || '🤖',
-          role: agent.role
-        }
-      };
-
-      state.messages.push(message);
-      
-      // Stream to UI if possible
-      if (this.io) {
-        this.io.to(`conversation:${state.conversationId}`).emit('new-message', message);
+      switch (state.workflowMode) {
+        case 'solo':
+          await this.executeSoloMode(state);
+          break;
+        case 'mini-workflow':
+          await this.executeMiniWorkflow(state);
+          break;
+        case 'full-workflow':
+          await this.executeFullWorkflow(state);
+          break;
+        case 'template':
+          await this.executeTemplateWorkflow(state, template!);
+          break;
       }
-      
-      console.log(`✅ [SOLO] Solo response completed from ${agent.name}`);
-      
-    } catch (error) {
-      console.error(`❌ [SOLO] Error in solo mode:`, error);
-      state.error = `Solo mode failed: ${error.message}`;
+    } catch (error: any) {
+      state.error = error.message;
+      await this.recordRunEnd(state, 'failed');
+      throw error;
     }
     
-    state.phase = 'complete';
+    if (this.isCancelled(state)) {
+      this.finishCancelledWorkflow(state);
+    }
+    await this.recordRunEnd(state, state.cancelled ? 'cancelled' : 'completed');
   }
 
   /**
-   * Mini Workflow: 2-3 mentioned agents collaborate briefly
+   * Continue a run cut short by a restart: agents that hadn't taken their turn in the
+   * interrupted round run first, then the workflow goes on as it would have
    */
-  private async executeMiniWorkflow(state: SharedWorkflowState): Promise<void> {
-    console.log('🔄 [MINI] Executing mini workflow');
-    
-    let currentRound = 1;
+  async resumeWorkflow(runId: string): Promise<SharedWorkflowState> {
+    if (!this.runService) {
+      throw new Error('Workflow runs are not being saved');
+    }
+    const details = await this.runService.get(runId);
+    if (!details) {
+      throw new Error(`Workflow run ${runId} not found`);
+    }
+    if (details.run.status !== 'interrupted') {
+      throw new Error(`Workflow run ${runId} is ${details.run.status}, not interrupted`);
+    }
+    
+    const { state, steps } = details;
+    if (this.isWorkflowRunning(state.conversationId)) {
+      throw new Error('Another workflow is running in this conversation');
+    }
+    
+    const template = state.template && this.workflowBuilder?.getTemplateById(state.template.templateId);
+    if (state.workflowMode === 'template' && !template) {
+      throw new Error(`Workflow template ${state.template?.templateId} no longer exists`);
+    }
+    
+    // Agents with a step in the interrupted round already took their turn, whatever its outcome
+    const tookTurn = new Set(steps.filter(step => step.round === state.collaborationRound).map(step => step.agentId));
+    const unfinished = state.activeAgents.filter(agentId => !tookTurn.has(agentId));
+    state.nextAgents = [...new Set([...unfinished, ...state.nextAgents])].filter(agentId => !tookTurn.has(agentId));
+    state.activeAgents = [];
+    state.cancelled = false;
+    state.runId = runId;
+    
+    console.log(`▶️ [RESUME] Resuming run ${runId} in round ${state.collaborationRound} with ${state.nextAgents.join(', ') || 'no pending agents'}`);
+    
+    const cancellation = this.lockConversation(state.conversationId, runId);
+    try {
+      await this.runService.setStatus(runId, 'running');
+      
+      if (state.workflowMode !== 'template' && state.nextAgents.length === 0) {
+        state.phase = 'complete';
+        await this.recordRunEnd(state, 'completed');
+      } else {
+        await this.executeWorkflow(state, template || undefined);
+      }
+      return state;
+    } catch (error: any) {
+      console.error(`❌ [RESUME] Run ${runId} failed:`, error);
+      state.error = error.message;
+      await this.publishMessage(state, {
+        id: `error-${Date.now()}`,
+        conversationId: state.conversationId,
+        senderId: 'system',
+        content: `Sorry, the resumed workflow failed: ${error.message}`,
+        type: 'text',
+        timestamp: new Date().toISOString(),
+        metadata: { error: true }
+      });
+      return state;
+    } finally {
+      this.releaseConversation(state.conversationId, cancellation);
+    }
+  }
+
+  /**
+   * Give up on an interrupted run; its pending agents never run
+   */
+  async abandonWorkflow(runId: string): Promise<void> {
+    if (!this.runService) {
+      throw new Error('Workflow runs are not being saved');
+    }
+    const details = await this.runService.get(runId);
+    if (!details) {
+      throw new Error(`Workflow run ${runId} not found`);
+    }
+    if (details.run.status !== 'interrupted') {
+      throw new Error(`Workflow run ${runId} is ${details.run.status}, not interrupted`);
+    }
+    await this.runService.setStatus(runId, 'abandoned');
+    console.log(`🗑️ [RESUME] Abandoned run ${runId}`);
+  }
+
+  /**
+   * Helper: Drop the conversation's in-flight bookkeeping once its run is over and start the
+   * next queued message
+   */
+  private releaseConversation(conversationId: string, cancellation: AbortController): void {
+    if (this.cancellationTokens.get(conversationId) === cancellation) {
+      this.cancellationTokens.delete(conversationId);
+      this.runningStates.delete(conversationId);
+      this.priorContexts.delete(conversationId);
+      this.conversationCycles.delete(conversationId);
+      this.recentResponders.delete(conversationId);
+    }
+    
+    const lock = this.activeProcessing.get(conversationId);
+    if (lock?.cancellation !== cancellation) {
+      return; // Reset while running; the lock already belongs to someone else or nobody
+    }
+    this.activeProcessing.delete(conversationId);
+    lock.finish();
+    
+    const queue = this.messageQueues.get(conversationId);
+    const next = queue?.shift();
+    if (queue?.length === 0) {
+      this.messageQueues.delete(conversationId);
+    }
+    if (next) {
+      console.log(`📤 [QUEUE] Starting queued message ${next.message.id}`);
+      this.runMessage(next.message).then(next.resolve, next.reject);
+    }
+  }
+
+  /**
+   * Helper: Save a new run for the state. Workflows still run when saving fails; they just can't be resumed.
+   */
+  private async startRunRecord(state: SharedWorkflowState, messageId?: string): Promise<void> {
+    if (!this.runService) return;
+    try {
+      state.runId = await this.runService.start(state, messageId);
+    } catch (error: any) {
+      console.warn(`⚠️ [RUNS] Could not save the run for ${state.conversationId}:`, error.message);
+    }
+  }
+
+  /**
+   * Helper: The phase to report for a run; template runs are in one of the template's phases
+   */
+  private getCurrentPhase(state: SharedWorkflowState): string {
+    return state.template?.phase || state.phase;
+  }
+
+  /**
+   * Helper: An agent's turn begins; its execution timing starts here
+   */
+  private recordAgentStart(state: SharedWorkflowState, agentId: string): void {
+    this.touchLock(state.conversationId);
+    this.executionService?.agentStarted(state.executionId, agentId, this.getCurrentPhase(state));
+  }
+
+  /**
+   * Helper: An agent's turn is over. Saves it with the state it left behind and closes its execution timing.
+   */
+  private async recordAgentTurn(
+    state: SharedWorkflowState,
+    agentId: string,
+    status: WorkflowRunStep['status'],
+    details: { messageId?: string; detail?: string } = {}
+  ): Promise<void> {
+    this.touchLock(state.conversationId);
+    this.executionService?.agentFinished(state.executionId, agentId, this.getCurrentPhase(state), status, details.detail);
+    
+    if (!this.runService || !state.runId) return;
+    try {
+      await this.runService.recordStep(state.runId, state, {
+        agentId,
+        round: state.collaborationRound,
+        phase: this.getCurrentPhase(state),
+        status,
+        ...details
+      });
+    } catch (error: any) {
+      console.warn(`⚠️ [RUNS] Could not save ${agentId}'s turn in run ${state.runId}:`, error.message);
+    }
+  }
+
+  private async recordRunEnd(state: SharedWorkflowState, status: 'completed' | 'failed' | 'cancelled'): Promise<void> {
+    this.executionService?.finish(state.executionId, status, this.getCurrentPhase(state), state.error);
+    
+    if (!this.runService || !state.runId) return;
+    try {
+      await this.runService.setStatus(state.runId, status, state);
+    } catch (error: any) {
+      console.warn(`⚠️ [RUNS] Could not save the end of run ${state.runId}:`, error.message);
+    }
+  }
+
+  /**
+   * Cancel the in-flight run for a conversation: aborts the current agent call
+   * and drops the agents still queued. Returns false when nothing is running.
+   */
+  public cancelWorkflow(conversationId: string, reason: string = 'Cancelled by user'): boolean {
+    const cancellation = this.cancellationTokens.get(conversationId);
+    if (!cancellation || cancellation.signal.aborted) {
+      return false;
+    }
+
+    console.log(`🛑 [CANCEL] Cancelling workflow for ${conversationId}: ${reason}`);
+    cancellation.abort(reason);
+    return true;
+  }
+
+  public isWorkflowRunning(conversationId: string): boolean {
+    return this.activeProcessing.has(conversationId);
+  }
+
+  /**
+   * Helper: Whether the run this state belongs to has been cancelled
+   */
+  private isCancelled(state: SharedWorkflowState): boolean {
+    return !!state.cancelled || !!this.cancellationTokens.get(state.conversationId)?.signal.aborted;
+  }
+
+  /**
+   * Helper: Stop a cancelled run, keeping the messages produced so far
+   */
+  private finishCancelledWorkflow(state: SharedWorkflowState): void {
+    const droppedAgents = [...state.nextAgents];
+    const reason = this.cancellationTokens.get(state.conversationId)?.signal.reason;
+
+    state.cancelled = true;
+    state.nextAgents = [];
+    state.activeAgents = [];
+    state.phase = 'complete';
+
+    console.log(`🛑 [CANCEL] Workflow cancelled with ${state.messages.length} partial messages, dropped: ${droppedAgents.join(', ') || 'none'}`);
+
+    if (this.io) {
+      this.io.to(`conversation:${state.conversationId}`).emit('workflow-cancelled', {
+        conversationId: state.conversationId,
+        reason: typeof reason === 'string' ? reason : 'Cancelled by user',
+        workflowMode: state.workflowMode,
+        round: state.collaborationRound,
+        droppedAgents,
+        partialMessages: state.messages,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Initialize workflow state based on mode
+   */
+  private initializeWorkflowState(message: Message, mode: WorkflowMode, team: TeamDefinition | null): SharedWorkflowState {
+    return {
+      conversationId: message.conversationId,
+      phase: 'analysis',
+      userRequest: message.content,
+      sharedKnowledge: {
+        projectRequirements: '',
+        designDecisions: [],
+        technicalDecisions: [],
+        implementationNotes: [],
+        integrationPoints: [],
+        completedTasks: [],
+        blockers: []
+      },
+      agentContributions: {},
+      activeAgents: [],
+      nextAgents: mode.agents,
+      collaborationRound: 1,
+      maxRounds: mode.maxRounds,
+      messages: [],
+      workflowMode: mode.type,
+      requestMessageId: message.id,
+      ...(team && { team }),
+      ...(team?.approvalGates?.length && { approvalGates: team.approvalGates })
+    };
+  }
+
+  /**
+   * The team attached to the conversation, or the default web team built from agent roles
+   */
+  private async resolveTeam(conversationId: string): Promise<TeamDefinition | null> {
+    if (this.teamService) {
+      try {
+        const team = await this.teamService.getForConversation(conversationId);
+        if (team) return team;
+      } catch (error: any) {
+        console.warn(`⚠️ [TEAM] Could not load the team for ${conversationId}:`, error.message);
+      }
+    }
+    return this.getDefaultTeam();
+  }
+
+  /**
+   * The template requested in the message metadata, else the one bound to the conversation
+   * when the message mentions nobody. A binding whose template is gone is cleared, so the
+   * conversation falls back to the built-in modes.
+   */
+  private async resolveTemplate(message: Message, mentions: string[]): Promise<WorkflowTemplate | null> {
+    const requestedId: string | undefined = message.metadata?.workflowTemplateId;
+    if (requestedId) {
+      const template = this.workflowBuilder?.getTemplateById(requestedId);
+      if (!template) {
+        throw new Error(`Workflow template ${requestedId} not found`);
+      }
+      return template;
+    }
+    if (mentions.length > 0 || !this.conversationService) {
+      return null;
+    }
+
+    let boundId: string | null = null;
+    try {
+      boundId = await this.conversationService.getWorkflowTemplateId(message.conversationId);
+    } catch (error: any) {
+      console.warn(`⚠️ [TEMPLATE] Could not load the template bound to ${message.conversationId}:`, error.message);
+    }
+    if (!boundId) {
+      return null;
+    }
+
+    // Published templates live in memory, so a binding can outlast its template across a restart
+    const template = this.workflowBuilder?.getTemplateById(boundId);
+    if (!template) {
+      console.warn(`⚠️ [TEMPLATE] Template ${boundId} bound to ${message.conversationId} no longer exists; unbinding it`);
+      try {
+        await this.conversationService.setWorkflowTemplate(message.conversationId, null);
+      } catch (error: any) {
+        console.warn(`⚠️ [TEMPLATE] Could not unbind template ${boundId} from ${message.conversationId}:`, error.message);
+      }
+      return null;
+    }
+    return template;
+  }
+
+  /**
+   * Helper: Team of the active coordinator, designer and developer agents, led by the coordinator
+   */
+  private getDefaultTeam(): TeamDefinition | null {
+    const members = this.agentInfo.filter(agent => agent.isActive && DEFAULT_TEAM_ROLES.includes(agent.role));
+    if (members.length === 0) {
+      return null;
+    }
+
+    return {
+      id: 'default-team',
+      name: 'Default team',
+      leadAgentId: (members.find(agent => agent.role === 'coordinator') || members[0]).id,
+      members: members.map(agent => {
+        const dependsOn = members
+          .filter(other => DEFAULT_TEAM_DEPENDENCIES[agent.role]?.includes(other.role))
+          .map(other => other.id);
+        return { agentId: agent.id, ...(dependsOn.length > 0 && { dependsOn }) };
+      })
+    };
+  }
+
+  /**
+   * Helper: Active agents on a team, in member order
+   */
+  private getTeamAgents(team: TeamDefinition): BackendAgent[] {
+    return team.members
+      .map(member => this.agentInfo.find(agent => agent.id === member.agentId))
+      .filter((agent): agent is BackendAgent => !!agent && agent.isActive);
+  }
+
+  /**
+   * Helper: Whether a team member may hand the work off to another member
+   */
+  private canHandOff(team: TeamDefinition | undefined, fromAgentId: string, toAgentId: string): boolean {
+    if (!team || fromAgentId === toAgentId || !team.members.some(m => m.agentId === toAgentId)) {
+      return false;
+    }
+    const handoffs = team.members.find(m => m.agentId === fromAgentId)?.handoffs;
+    return !handoffs || handoffs.includes(toAgentId);
+  }
+
+  /**
+   * Helper: Team member a contribution hands off to, by agent ID, name or role
+   */
+  private resolveHandoff(state: SharedWorkflowState, fromAgentId: string, reference: string): string | undefined {
+    const target = this.findTeamAgent(state, reference);
+    if (!target) {
+      return undefined;
+    }
+
+    if (!this.canHandOff(state.team, fromAgentId, target.id)) {
+      console.log(`🚫 [TEAM] ${fromAgentId} is not allowed to hand off to ${target.id}`);
+      return undefined;
+    }
+    return target.id;
+  }
+
+  /**
+   * Helper: Team member referred to by agent ID, name or role
+   */
+  private findTeamAgent(state: SharedWorkflowState, reference: string): BackendAgent | undefined {
+    const ref = reference.trim().replace(/^@/, '').toLowerCase();
+    return state.team && this.getTeamAgents(state.team).find(agent =>
+      agent.id.toLowerCase() === ref || agent.name.toLowerCase() === ref || agent.role.toLowerCase() === ref
+    );
+  }
+
+  /**
+   * Helper: Agents an agent's reply @mentions that take a follow-up turn, besides those canJoin rules out.
+   * Follow-ups are limited per run and per pair of agents; mentions a limit stops are reported in the conversation.
+   */
+  private async chainMentionedAgents(
+    state: SharedWorkflowState,
+    agentId: string,
+    content: string,
+    canJoin: (agentId: string) => boolean = () => true
+  ): Promise<string[]> {
+    if (this.isCancelled(state)) {
+      return [];
+    }
+    const mentioned = this.validateMentionedAgents(this.parseMentions(content, true))
+      .filter(id => id !== agentId && !state.nextAgents.includes(id) && canJoin(id))
+      .filter(id => !state.team || this.canHandOff(state.team, agentId, id));
+    if (mentioned.length === 0) {
+      return [];
+    }
+    
+    const { conversationId } = state;
+    const hops = this.recentResponders.get(conversationId) || [];
+    const chained: string[] = [];
+    const stopped: { agentId: string; reason: 'budget' | 'ping-pong' }[] = [];
+    
+    for (const id of mentioned) {
+      const pairTurns = hops.filter(hop => hop === `${agentId}>${id}` || hop === `${id}>${agentId}`).length;
+      if ((this.conversationCycles.get(conversationId) || 0) >= this.maxMentionTurns) {
+        stopped.push({ agentId: id, reason: 'budget' });
+      } else if (pairTurns >= this.maxPairTurns) {
+        stopped.push({ agentId: id, reason: 'ping-pong' });
+      } else {
+        chained.push(id);
+        hops.push(`${agentId}>${id}`);
+        this.conversationCycles.set(conversationId, (this.conversationCycles.get(conversationId) || 0) + 1);
+      }
+    }
+    this.recentResponders.set(conversationId, hops);
+    
+    if (chained.length > 0) {
+      console.log(`🔗 [MENTIONS] ${agentId} brought in ${chained.join(', ')}`);
+      // Rounds run out before the chain does; the limits above end it
+      state.maxRounds = Math.max(state.maxRounds, state.collaborationRound + 1);
+    }
+    if (stopped.length > 0) {
+      const name = (id: string) => this.agentInfo.find(agent => agent.id === id)?.name || id;
+      const reasons = stopped.map(stop => stop.reason === 'budget'
+        ? `@${name(stop.agentId)} (this run already had ${this.maxMentionTurns} follow-up turns from mentions)`
+        : `@${name(stop.agentId)} (${name(agentId)} and ${name(stop.agentId)} already went back and forth ${this.maxPairTurns} times)`
+      );
+      console.log(`⛓️ [MENTIONS] Chain stopped after ${agentId}: ${reasons.join(', ')}`);
+      this.executionService?.log(state.executionId, 'warn', 'Mention chain stopped', { agent: agentId, data: { stopped } });
+      
+      await this.publishMessage(state, {
+        id: `chain-stopped-${Date.now()}-${agentId}`,
+        conversationId,
+        senderId: 'system',
+        content: `⛓️ Chain stopped: ${name(agentId)} mentioned ${reasons.join(', ')}. Mention them again to continue.`,
+        type: 'system',
+        timestamp: new Date().toISOString(),
+        metadata: { chainStopped: true, agentId, stopped }
+      });
+    }
+    return chained;
+  }
+
+  /**
+   * Helper: Wait for a person to approve, with the run's state stored alongside the request.
+   * Returns null when nobody can be asked, which gated work treats as a rejection.
+   */
+  private async requestApproval(
+    conversationId: string | undefined,
+    request: Omit<ApprovalRequest, 'conversationId' | 'stateSnapshot' | 'signal'>
+  ): Promise<WorkflowApproval | null> {
+    if (!this.approvalService || !conversationId) {
+      console.warn(`⚠️ [APPROVAL] No way to ask for approval: ${request.title}`);
+      return null;
+    }
+
+    const state = this.runningStates.get(conversationId);
+    this.executionService?.setPaused(state?.executionId, true, `Waiting for approval: ${request.title}`);
+    try {
+      return await this.approvalService.request({
+        ...request,
+        conversationId,
+        // Messages are saved already; the snapshot keeps their IDs
+        stateSnapshot: state && { ...state, messages: state.messages.map(message => message.id) },
+        signal: this.cancellationTokens.get(conversationId)?.signal
+      });
+    } catch (error: any) {
+      console.error(`❌ [APPROVAL] Could not request approval for ${request.title}:`, error.message);
+      return null;
+    } finally {
+      // Waiting for a person isn't being stuck
+      this.touchLock(conversationId);
+      this.executionService?.setPaused(state?.executionId, false, `Approval closed: ${request.title}`);
+    }
+  }
+
+  private describeApproval(approval: WorkflowApproval | null): string {
+    if (!approval) {
+      return 'approvals are not available';
+    }
+    return `${approval.status} by ${approval.approver}${approval.comment ? ` (${approval.comment})` : ''}`;
+  }
+
+  /**
+   * Helper: Whether an agent may run; agents behind a before-agent gate wait for approval.
+   * Gates name the agent by ID or role, or by template node.
+   */
+  private async approveAgentRun(state: SharedWorkflowState, agentId: string, nodeId?: string): Promise<boolean> {
+    const agent = this.agentInfo.find(a => a.id === agentId);
+    const gate = state.approvalGates?.find(gate =>
+      gate.type === 'before-agent' && !!gate.agentId && [agentId, agent?.role, nodeId].includes(gate.agentId)
+    );
+    if (!gate) {
+      return true;
+    }
+
+    const approval = await this.requestApproval(state.conversationId, {
+      gate: 'before-agent',
+      target: agentId,
+      agentId,
+      title: `Let ${agent?.name || agentId} work on the request`,
+      details: { request: state.userRequest, phase: this.getCurrentPhase(state), round: state.collaborationRound },
+      timeoutSeconds: gate.timeoutSeconds,
+      onTimeout: gate.onTimeout
+    });
+    if (approval?.status === 'approved') {
+      return true;
+    }
+
+    console.log(`⏭️ [APPROVAL] Skipping ${agentId}: ${this.describeApproval(approval)}`);
+    await this.recordAgentTurn(state, agentId, 'skipped', { detail: `Run was ${this.describeApproval(approval)}` });
+    return false;
+  }
+
+  /**
+   * Helper: Ask for approval of a finished phase that has an after-phase gate. Returns the gate
+   * when the phase is rejected, after telling the conversation; undefined when it may go on.
+   */
+  private async rejectedPhaseGate(state: SharedWorkflowState, phase: string): Promise<ApprovalGate | undefined> {
+    const gate = state.approvalGates?.find(gate => gate.type === 'after-phase' && gate.phase === phase);
+    if (!gate) {
+      return undefined;
+    }
+
+    const approval = await this.requestApproval(state.conversationId, {
+      gate: 'after-phase',
+      target: phase,
+      title: `Approve the ${phase} phase`,
+      details: {
+        request: state.userRequest,
+        contributions: Object.values(state.agentContributions).map(c => ({ agentId: c.agentId, message: c.message }))
+      },
+      timeoutSeconds: gate.timeoutSeconds,
+      onTimeout: gate.onTimeout
+    });
+    if (approval?.status === 'approved') {
+      return undefined;
+    }
+    if (this.isCancelled(state)) {
+      return gate;
+    }
+
+    await this.publishMessage(state, {
+      id: `approval-rejected-${Date.now()}`,
+      conversationId: state.conversationId,
+      senderId: 'system',
+      content: gate.rejectPhase
+        ? `↩️ The ${phase} phase was ${this.describeApproval(approval)}; going back to ${gate.rejectPhase}.`
+        : `✋ The ${phase} phase was ${this.describeApproval(approval)}; the workflow stopped.`,
+      type: 'system',
+      timestamp: new Date().toISOString(),
+      metadata: { approvalId: approval?.id, phase }
+    });
+    return gate;
+  }
+
+  /**
+   * Solo Mode: Single agent responds directly
+   */
+  private async executeSoloMode(state: SharedWorkflowState): Promise<void> {
+    console.log('🎯 [SOLO] Executing solo mode');
+    
+    if (state.nextAgents.length !== 1) {
+      throw new Error(`Solo mode requires exactly 1 agent, got ${state.nextAgents.length}`);
+    }
+
+    const agentId = state.nextAgents[0];
+    const agent = this.agentInfo.find(a => a.id === agentId);
+    
+    if (!agent) {
+      state.error = `Agent ${agentId} not found`;
+      state.phase = 'complete';
+      return;
+    }
+    if (!await this.approveAgentRun(state, agentId)) {
+      state.phase = 'complete';
+      return;
+    }
+
+    let stream: ReplyStream | undefined;
+    try {
+      console.log(`🤖 [SOLO] Processing agent: ${agent.name} (${agent.role})`);
+      
+      this.recordAgentStart(state, agentId);
+      
+      // Build solo prompt (no collaboration context needed)
+      const { prompt: soloPrompt, contextBudget } = this.buildSoloPrompt(agent, state, await this.getAgentModel(agent));
+      const messageId = `msg-${Date.now()}-${agentId}`;
+      stream = this.createReplyStream(state, agent, messageId);
+      
+      // Get response from agent; someone is waiting on it, so it goes ahead of workflow traffic
+      const reply = await this.callAgent(agent, soloPrompt, state.conversationId, {
+        priority: 'interactive',
+        onContent: stream.onContent
+      });
+      
+      // Create message for UI
+      const message = {
+        id: messageId,
+        conversationId: state.conversationId,
+        senderId: agentId,
+        content: reply.content,
+        type: 'text' as const,
+        timestamp: new Date().toISOString(),
+        metadata: {
+          ...this.getReplySourceMetadata(reply),
+          workflowMode: 'solo',
+          round: state.collaborationRound,
+          phase: state.phase,
+          directResponse: true,
+          contextBudget
+        },
+        agent: {
+          id: agent.id,
+          name: agent.name,
+          avatar: agent.avatar || '🤖',
+          role: agent.role
+        }
+      };
+
+      await this.publishMessage(state, message);
+      stream.end('complete');
+      state.nextAgents = await this.chainMentionedAgents(state, agentId, reply.content);
+      await this.recordAgentTurn(state, agent.id, 'success', { messageId });
+      
+      console.log(`✅ [SOLO] Solo response completed from ${agent.name}`);
+      
+    } catch (error: any) {
+      stream?.end(error instanceof LLMCancelledError ? 'cancelled' : 'failed');
+      if (error instanceof LLMCancelledError) {
+        console.log(`🛑 [SOLO] ${agent.name} was cancelled`);
+        state.cancelled = true;
+        state.phase = 'complete';
+        return;
+      }
+      console.error(`❌ [SOLO] Error in solo mode:`, error);
+      state.error = `Solo mode failed: ${error.message}`;
+      state.nextAgents = [];
+      await this.addAgentErrorMessage(state, agent, error);
+    }
+    
+    // Agents the reply mentioned carry on as a mini workflow
+    if (state.nextAgents.length > 0 && !this.isCancelled(state)) {
+      state.workflowMode = 'mini-workflow';
+      state.collaborationRound++;
+      await this.executeMiniWorkflow(state);
+      return;
+    }
+    state.phase = 'complete';
+  }
+
+  /**
+   * Mini Workflow: 2-3 mentioned agents collaborate briefly
+   */
+  private async executeMiniWorkflow(state: SharedWorkflowState): Promise<void> {
+    console.log('🔄 [MINI] Executing mini workflow');
+    
+    // Resumed runs carry on from the round they were in
+    let currentRound = state.collaborationRound;
     
     while (state.phase !== 'complete' && currentRound <= state.maxRounds) {
       console.log(`🔄 [MINI] Round ${currentRound}/${state.maxRounds}`);
@@ -502,12 +1522,19 @@ export class WorkflowOrchestrator {
       state.activeAgents = agentsThisRound;
       state.nextAgents = [];
       
-      for (const agentId of agentsThisRound) {
-        await this.processAgentInMiniWorkflow(agentId, state);
+      for (const [index, agentId] of agentsThisRound.entries()) {
+        if (this.isCancelled(state)) {
+          // Keep the agents that never ran so the cancel event can report them
+          state.nextAgents.push(...agentsThisRound.slice(index));
+          break;
+        }
+        if (await this.approveAgentRun(state, agentId)) {
+          await this.processAgentInMiniWorkflow(agentId, state);
+        }
       }
       
       // Check if mini workflow should continue
-      if (state.nextAgents.length === 0 || currentRound >= state.maxRounds) {
+      if (this.isCancelled(state) || state.nextAgents.length === 0 || currentRound >= state.maxRounds) {
         state.phase = 'complete';
         break;
       }
@@ -531,8 +1558,18 @@ export class WorkflowOrchestrator {
       // Process agents for this round
       await this.processAgentRound(state);
       
-      // Update workflow phase
+      if (this.isCancelled(state)) {
+        break;
+      }
+      
+      // Update workflow phase; a phase behind an approval gate only ends once it is approved
+      const finishedPhase = state.phase;
       this.updateWorkflowPhase(state);
+      if (state.phase !== finishedPhase && await this.rejectedPhaseGate(state, finishedPhase)) {
+        state.nextAgents = [];
+        state.phase = 'complete';
+        break;
+      }
       
       // Check completion conditions
       if (state.nextAgents.length === 0) {
@@ -548,12 +1585,303 @@ export class WorkflowOrchestrator {
   }
 
   /**
-   * Helper: Build solo prompt without collaboration overhead
+   * Template Workflow: Walk a published template's phases, choosing each agent by its routing
+   * rules, within the template's iteration and time limits
+   */
+  private async executeTemplateWorkflow(state: SharedWorkflowState, template: WorkflowTemplate): Promise<void> {
+    console.log(`🧩 [TEMPLATE] Executing template ${template.name}`);
+    
+    const { config } = template;
+    state.approvalGates = config.approvalGates || [];
+    const validation = this.getUsableValidation(template);
+    const nodeAgents = this.mapTemplateNodes(template);
+    const maxIterations = template.metadata?.maxIterations || template.validation?.maxIterations || 20;
+    const maxExecutionTime = template.validation?.maxExecutionTime || 300;
+    
+    // The template's agents form the team for prompts; routing rules decide who goes next
+    state.team = {
+      id: `template-${template.id}`,
+      name: template.name,
+      leadAgentId: nodeAgents.values().next().value?.id || '',
+      members: [...new Set(nodeAgents.values())].map(agent => ({ agentId: agent.id, handoffs: [] }))
+    };
+    // A resumed run picks up in the phase it was in
+    const resumed = state.template?.templateId === template.id ? state.template : undefined;
+    state.template = {
+      templateId: template.id,
+      name: template.name,
+      phase: resumed?.phase || config.phases[0]?.name || 'complete',
+      iterations: resumed?.iterations || 0,
+      maxIterations
+    };
+    state.phase = 'collaboration';
+    
+    const workflowState: WorkflowState = {
+      conversationId: state.conversationId,
+      phase: state.template.phase,
+      activeAgents: [],
+      completedTasks: [],
+      pendingTasks: [],
+      agentOutputs: {},
+      messages: state.messages,
+      currentInput: state.userRequest,
+      workflowHistory: [],
+      retryCount: 0
+    };
+
+    let phase: WorkflowPhase | undefined = config.phases.find(p => p.name === state.template!.phase) || config.phases[0];
+    // Phases before the resumed one already finished
+    for (const earlier of config.phases.slice(0, config.phases.indexOf(phase!))) {
+      workflowState.completedTasks.push(`${earlier.name}_complete`);
+    }
+    
+    // Aborts the agent call in flight too, so a slow model can't outlast the limit
+    const timeout = setTimeout(() => {
+      this.cancelWorkflow(state.conversationId, `Workflow template exceeded its ${maxExecutionTime}s time limit`);
+    }, maxExecutionTime * 1000);
+    
+    try {
+      let phaseRuns: Record<string, number> = {};
+      
+      while (phase && !this.isCancelled(state)) {
+        state.template.phase = phase.name;
+        workflowState.phase = phase.name;
+        
+        const blocked = this.runTemplateSafetyChecks(template, workflowState, validation);
+        if (blocked) {
+          await this.stopTemplateWorkflow(state, `Safety check failed: ${blocked}`);
+          break;
+        }
+        if (state.template.iterations >= maxIterations) {
+          await this.stopTemplateWorkflow(state, `Reached the template's limit of ${maxIterations} iterations`);
+          break;
+        }
+        
+        const nodeId = this.routeTemplateNode(config, phase, workflowState, phaseRuns, nodeAgents);
+        if (!nodeId) {
+          console.warn(`⚠️ [TEMPLATE] Phase ${phase.name} has nobody left to run; moving on`);
+          phase = this.getNextTemplatePhase(config, phase);
+          phaseRuns = {};
+          continue;
+        }
+        
+        const agent = nodeAgents.get(nodeId)!;
+        state.template.iterations++;
+        phaseRuns[nodeId] = (phaseRuns[nodeId] || 0) + 1;
+        workflowState.activeAgents = [agent.id];
+        console.log(`🧩 [TEMPLATE] Iteration ${state.template.iterations}/${maxIterations}: ${phase.name} → ${nodeId} (${agent.name})`);
+        
+        if (await this.approveAgentRun(state, agent.id, nodeId)) {
+          await this.runTemplateNode(state, workflowState, agent, nodeId, phase);
+        } else {
+          // Not routed to again in this phase
+          phaseRuns[nodeId] = this.maxTemplatePhasePasses;
+          workflowState.workflowHistory.push(this.createTemplateStep(nodeId, phase, 'error', 'Run was not approved'));
+        }
+        if (this.isCancelled(state)) {
+          break;
+        }
+        
+        if (this.isTemplatePhaseComplete(phase, workflowState, phaseRuns)) {
+          const rejectedBy = await this.rejectedPhaseGate(state, phase.name);
+          const rejectPhase = rejectedBy?.rejectPhase && config.phases.find(p => p.name === rejectedBy.rejectPhase);
+          if (rejectedBy && !rejectPhase) {
+            break;
+          }
+          
+          if (rejectPhase) {
+            console.log(`↩️ [TEMPLATE] Phase ${phase.name} rejected; going back to ${rejectPhase.name}`);
+            workflowState.completedTasks = workflowState.completedTasks.filter(task => task !== `${rejectPhase.name}_complete`);
+            phase = rejectPhase;
+          } else {
+            console.log(`✅ [TEMPLATE] Phase ${phase.name} complete`);
+            workflowState.completedTasks.push(`${phase.name}_complete`);
+            phase = this.getNextTemplatePhase(config, phase);
+          }
+          phaseRuns = {};
+        }
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+    
+    workflowState.activeAgents = [];
+    state.phase = 'complete';
+    console.log(`✅ [TEMPLATE] ${template.name} finished after ${state.template.iterations} iterations`);
+  }
+
+  /**
+   * Helper: One agent's turn in a template phase; its output is what the phase criteria look at
+   */
+  private async runTemplateNode(
+    state: SharedWorkflowState,
+    workflowState: WorkflowState,
+    agent: BackendAgent,
+    nodeId: string,
+    phase: WorkflowPhase
+  ): Promise<void> {
+    try {
+      const contribution = await this.contributeAgent(agent.id, state);
+      workflowState.agentOutputs[nodeId] = {
+        ...contribution,
+        // Phase criteria look for flags such as agentOutputs.designer.designComplete
+        [`${phase.name}Complete`]: contribution.phaseComplete === true
+      };
+      workflowState.pendingTasks.push(...(contribution.knowledgeUpdates.tasks || []));
+      workflowState.workflowHistory.push(this.createTemplateStep(nodeId, phase, 'success', contribution.message));
+      await this.recordAgentTurn(state, agent.id, 'success', { messageId: contribution.messageId });
+    } catch (error: any) {
+      if (error instanceof LLMCancelledError) {
+        state.cancelled = true;
+        return;
+      }
+      console.error(`❌ [TEMPLATE] ${agent.name} failed in phase ${phase.name}:`, error);
+      state.error = `Agent ${agent.id} failed: ${error.message}`;
+      workflowState.workflowHistory.push(this.createTemplateStep(nodeId, phase, 'error', error.message));
+      await this.addAgentErrorMessage(state, agent, error);
+    }
+  }
+
+  /**
+   * Helper: Agent for each template node: same ID, then same role (or a specialization of it
+   * such as "frontend-developer" for "frontend"), then same name. Fails if a phase needs a node nobody fills.
+   */
+  private mapTemplateNodes(template: WorkflowTemplate): Map<string, BackendAgent> {
+    const activeAgents = this.agentInfo.filter(agent => agent.isActive);
+    const nodeAgents = new Map<string, BackendAgent>();
+    
+    for (const node of template.config.nodes) {
+      const agent = activeAgents.find(a => a.id === node.id)
+        || activeAgents.find(a => a.role === node.role)
+        || activeAgents.find(a => a.role.startsWith(`${node.role}-`))
+        || activeAgents.find(a => a.name.toLowerCase() === node.name.toLowerCase());
+      if (agent) {
+        nodeAgents.set(node.id, agent);
+      }
+    }
+    
+    const unfilled = [...new Set(template.config.phases.flatMap(phase => phase.requiredAgents))]
+      .filter(nodeId => !nodeAgents.has(nodeId));
+    if (unfilled.length > 0) {
+      throw new Error(`No active agent can fill template node(s): ${unfilled.join(', ')}`);
+    }
+    return nodeAgents;
+  }
+
+  /**
+   * Helper: Next node for the phase: the highest-priority routing rule that applies, else a
+   * required agent that hasn't run yet. Nodes stop being picked after maxTemplatePhasePasses runs.
+   */
+  private routeTemplateNode(
+    config: WorkflowTemplate['config'],
+    phase: WorkflowPhase,
+    workflowState: WorkflowState,
+    phaseRuns: Record<string, number>,
+    nodeAgents: Map<string, BackendAgent>
+  ): string | undefined {
+    const available = (nodeId: string) => nodeAgents.has(nodeId) && (phaseRuns[nodeId] || 0) < this.maxTemplatePhasePasses;
+    
+    const rules = [...config.routingRules].sort((a, b) => a.priority - b.priority);
+    for (const rule of rules) {
+      // Templates published over the API arrive as JSON, without their functions
+      if (typeof rule.condition !== 'function' || !available(rule.targetNode)) continue;
+      try {
+        if (rule.condition(workflowState)) {
+          return rule.targetNode;
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ [TEMPLATE] Routing rule for ${rule.targetNode} failed:`, error.message);
+      }
+    }
+    
+    return phase.requiredAgents.find(nodeId => available(nodeId) && !phaseRuns[nodeId]);
+  }
+
+  /**
+   * Helper: A phase is done when its completion criteria pass; without criteria, once every
+   * required agent has run in it
+   */
+  private isTemplatePhaseComplete(phase: WorkflowPhase, workflowState: WorkflowState, phaseRuns: Record<string, number>): boolean {
+    if (typeof phase.completionCriteria === 'function') {
+      try {
+        return phase.completionCriteria(workflowState);
+      } catch (error: any) {
+        console.warn(`⚠️ [TEMPLATE] Completion criteria for ${phase.name} failed:`, error.message);
+      }
+    }
+    return phase.requiredAgents.every(nodeId => phaseRuns[nodeId]);
+  }
+
+  private getNextTemplatePhase(config: WorkflowTemplate['config'], phase: WorkflowPhase): WorkflowPhase | undefined {
+    if (phase.nextPhase) {
+      return config.phases.find(p => p.name === phase.nextPhase);
+    }
+    return config.phases[config.phases.indexOf(phase) + 1];
+  }
+
+  /**
+   * Helper: The template's validation if its checks survived publishing; JSON-published
+   * templates lose their functions, so the validator's defaults apply to those
+   */
+  private getUsableValidation(template: WorkflowTemplate): WorkflowTemplate['validation'] | undefined {
+    const checks = template.validation?.safetyChecks;
+    return checks?.every(check => typeof check.check === 'function') ? template.validation : undefined;
+  }
+
+  /**
+   * Helper: Run the template's safety checks; returns the message of a failed blocking check
+   */
+  private runTemplateSafetyChecks(
+    template: WorkflowTemplate,
+    workflowState: WorkflowState,
+    validation: WorkflowTemplate['validation'] | undefined
+  ): string | null {
+    const results = this.workflowValidator.runSafetyChecks(template.config, workflowState, validation);
+    
+    for (const result of results.filter(r => !r.passed)) {
+      if (result.severity === 'error') {
+        return result.message;
+      }
+      console.warn(`⚠️ [TEMPLATE] ${result.ruleName}: ${result.message}`);
+    }
+    return null;
+  }
+
+  private createTemplateStep(nodeId: string, phase: WorkflowPhase, status: WorkflowStep['status'], output: string): WorkflowStep {
+    return {
+      id: `${nodeId}-${Date.now()}`,
+      timestamp: new Date().toISOString(),
+      node: nodeId,
+      input: { phase: phase.name },
+      output,
+      status
+    };
+  }
+
+  /**
+   * Helper: End a template run early and tell the conversation why
    */
-  private buildSoloPrompt(agent: BackendAgent, userRequest: string): string {
-    return `You are a ${agent.role} responding directly to a user request.
+  private async stopTemplateWorkflow(state: SharedWorkflowState, reason: string): Promise<void> {
+    console.warn(`🛑 [TEMPLATE] ${state.template?.name} stopped: ${reason}`);
+    state.error = reason;
+    await this.publishMessage(state, {
+      id: `template-stopped-${Date.now()}`,
+      conversationId: state.conversationId,
+      senderId: 'system',
+      content: `⚠️ Workflow "${state.template?.name}" stopped: ${reason}`,
+      type: 'system',
+      timestamp: new Date().toISOString(),
+      metadata: { error: true, templateId: state.template?.templateId, phase: state.template?.phase }
+    });
+  }
 
-USER REQUEST: "${userRequest}"
+  /**
+   * Helper: Build solo prompt without collaboration overhead
+   */
+  private buildSoloPrompt(agent: BackendAgent, state: SharedWorkflowState, model: ModelInfo): { prompt: string; contextBudget: ContextBudgetReport } {
+    const render = (kept: BudgetItem[]) => `You are a ${agent.role} responding directly to a user request.
+${this.renderPriorContext(kept)}
+USER REQUEST: "${state.userRequest}"
 
 ROLE: ${agent.role}
 CAPABILITIES: ${agent.capabilities?.join(', ') || 'General assistance'}
@@ -561,6 +1889,9 @@ CAPABILITIES: ${agent.capabilities?.join(', ') || 'General assistance'}
 Respond naturally and directly to the user's request. Be helpful, concise, and stay in character for your role.
 
 IMPORTANT: This is a direct response - no collaboration with other agents is needed.`;
+
+    const { items, report } = this.fitToContextWindow(agent, model, render([]), this.priorContexts.get(state.conversationId) || []);
+    return { prompt: render(items), contextBudget: report };
   }
 
   /**
@@ -573,28 +1904,33 @@ IMPORTANT: This is a direct response - no collaboration with other agents is nee
       return;
     }
 
+    let stream: ReplyStream | undefined;
     try {
       console.log(`🤖 [MINI] Processing ${agent.name} (${agent.role})`);
+      this.recordAgentStart(state, agentId);
       
-      // Build mini workflow prompt
-      const miniPrompt = this.buildMiniWorkflowPrompt(agent, state);
+      // Build mini workflow conversation
+      const { messages: miniMessages, contextBudget } = this.buildMiniWorkflowMessages(agent, state, await this.getAgentModel(agent));
+      const messageId = `msg-${Date.now()}-${agentId}`;
+      stream = this.createReplyStream(state, agent, messageId);
       
       // Get response
-      const response = await this.callAgent(agent, miniPrompt);
+      const reply = await this.callAgent(agent, miniMessages, state.conversationId, { onContent: stream.onContent });
       
       // Create and emit message
       const message = {
-        id: `msg-${Date.now()}-${agentId}`,
+        id: messageId,
         conversationId: state.conversationId,
         senderId: agentId,
-        content: response,
+        content: reply.content,
         type: 'text' as const,
         timestamp: new Date().toISOString(),
         metadata: {
-          model: agent.config.model,
-          provider: agent.config.llmProvider,
+          ...this.getReplySourceMetadata(reply),
           workflowMode: 'mini-workflow',
-          round: state.collaborationRound
+          round: state.collaborationRound,
+          phase: state.phase,
+          contextBudget
         },
         agent: {
           id: agent.id,
@@ -604,69 +1940,460 @@ IMPORTANT: This is a direct response - no collaboration with other agents is nee
         }
       };
 
-      state.messages.push(message);
-      
-      if (this.io) {
-        this.io.to(`conversation:${state.conversationId}`).emit('new-message', message);
-      }
-      
-    } catch (error) {
-      console.error(`❌ [MINI] Error processing ${agent.name}:`, error);
+      await this.publishMessage(state, message);
+      stream.end('complete');
+      // Agents still to reply this round already get their turn
+      const waiting = state.activeAgents.slice(state.activeAgents.indexOf(agentId) + 1);
+      state.nextAgents.push(...await this.chainMentionedAgents(state, agentId, reply.content, id => !waiting.includes(id)));
+      await this.recordAgentTurn(state, agent.id, 'success', { messageId: message.id });
+      
+    } catch (error: any) {
+      stream?.end(error instanceof LLMCancelledError ? 'cancelled' : 'failed');
+      if (error instanceof LLMCancelledError) {
+        console.log(`🛑 [MINI] ${agent.name} was cancelled`);
+        state.cancelled = true;
+        return;
+      }
+      console.error(`❌ [MINI] Error processing ${agent.name}:`, error);
+      state.error = `Agent ${agentId} failed: ${error.message}`;
+      await this.addAgentErrorMessage(state, agent, error);
+    }
+  }
+
+  /**
+   * Helper: Build mini workflow chat with light collaboration context.
+   * The user's request and other agents' replies arrive as named user turns,
+   * the agent's own earlier replies as assistant turns.
+   */
+  private buildMiniWorkflowMessages(
+    agent: BackendAgent,
+    state: SharedWorkflowState,
+    model: ModelInfo
+  ): { messages: ChatMessage[]; contextBudget: ContextBudgetReport } {
+    const systemPrompt = (kept: BudgetItem[]) => `You are a ${agent.role} collaborating with other mentioned team members.
+
+Your role is to contribute your expertise to help address the user's request. Keep your response focused and collaborative.
+${this.renderPriorContext(kept)}
+Respond naturally - this is a brief collaboration, not a full project workflow.`;
+
+    const messages: ChatMessage[] = [{
+      role: 'system',
+      content: systemPrompt([])
+    }, {
+      role: 'user',
+      name: 'user',
+      content: state.userRequest
+    }];
+
+    for (const msg of state.messages) {
+      if (msg.metadata?.error) continue;
+
+      if (msg.senderId === agent.id) {
+        messages.push({ role: 'assistant', content: msg.content });
+      } else {
+        messages.push({ role: 'user', name: msg.agent?.name || msg.senderId, content: msg.content });
+      }
+    }
+
+    if (messages[messages.length - 1].role === 'assistant') {
+      messages.push({
+        role: 'user',
+        name: 'user',
+        content: 'Continue the collaboration, building on what the team has said since your last reply.'
+      });
+    }
+
+    // The run's own messages always go in; earlier context fills what's left of the window
+    const { items, report } = this.fitToContextWindow(
+      agent,
+      model,
+      messages.map(message => message.content).join('\n'),
+      this.priorContexts.get(state.conversationId) || []
+    );
+    messages[0].content = systemPrompt(items);
+    return { messages, contextBudget: report };
+  }
+
+  /**
+   * Helper: Call agent with proper error handling.
+   * Agents with tools enabled may call them in a loop until they produce a final answer.
+   */
+  private async callAgent(
+    agent: BackendAgent,
+    prompt: string | ChatMessage[],
+    conversationId?: string,
+    options: { responseFormat?: ResponseFormat; priority?: LLMPriority; onContent?: (content: string) => void } = {}
+  ): Promise<AgentReply> {
+    // Show typing indicator
+    if (this.io) {
+      this.io.to(`conversation:${agent.id}`).emit('typing-indicator', {
+        agentId: agent.id,
+        isTyping: true
+      });
+    }
+
+    try {
+      // Use agent's configured provider chain, model and generation settings
+      const tools = this.getAgentToolDefinitions(agent);
+      const { chain: capableChain, models } = await this.checkChainCapabilities(
+        agent,
+        this.buildLLMChain(agent, conversationId),
+        tools.length > 0
+      );
+      let chain = capableChain;
+      const attempts: LLMAttempt[] = [];
+      const messages: ChatMessage[] = typeof prompt === 'string'
+        ? [{ role: 'user', content: prompt }]
+        : [...prompt];
+      // Streaming has no tool calling, so agents with tools reply in one piece
+      const onContent = tools.length === 0 ? options.onContent : undefined;
+
+      for (let round = 1; ; round++) {
+        if (chain[0]?.signal?.aborted) {
+          throw new LLMCancelledError();
+        }
+
+        // The last round goes out without tools, so the provider has to answer in text
+        const lastRound = round > this.maxToolRounds;
+        if (lastRound) {
+          messages.push({
+            role: 'user',
+            content: 'Tool call limit reached. Give your final answer now without calling any more tools.'
+          });
+        }
+
+        const { result: response, config, attempts: roundAttempts } = await this.llmService.runWithFallback(
+          chain,
+          llmConfig => {
+            // Every attempt is a request to a provider, retries and fallbacks included
+            this.executionService?.recordModelCall(conversationId && this.runningStates.get(conversationId)?.executionId);
+            const requestConfig: LLMConfig = {
+              ...llmConfig,
+              tools: tools.length > 0 && !lastRound ? tools : undefined,
+              // Models without a JSON mode get the format from the prompt and the repair loop instead
+              responseFormat: this.supportsCapability(models.get(llmConfig), 'jsonMode') ? options.responseFormat : undefined,
+              priority: options.priority
+            };
+            if (!onContent) {
+              return this.llmService.generateChatCompletion(messages, requestConfig);
+            }
+
+            // Each retry or fallback starts the text over
+            let content = '';
+            onContent(content);
+            return this.llmService.streamChatCompletion(messages, requestConfig, chunk => {
+              content += chunk;
+              onContent(content);
+            });
+          },
+          agent.config?.retryPolicy
+        );
+        attempts.push(...roundAttempts);
+        // Stay on the provider that answered for the rest of this reply
+        chain = chain.slice(chain.indexOf(config));
+
+        if (lastRound && !response.content.trim()) {
+          throw new EmptyReplyError(agent.id, this.maxToolRounds);
+        }
+        if (!response.toolCalls?.length || lastRound) {
+          return {
+            content: response.content,
+            provider: response.provider,
+            model: response.model,
+            endpoint: response.endpoint,
+            ...(attempts.length > 0 && { attempts })
+          };
+        }
+
+        messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+        for (const toolCall of response.toolCalls) {
+          messages.push(await this.runToolCall(agent, toolCall, conversationId));
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof LLMCancelledError || error instanceof ModelCapabilityError || error instanceof EmptyReplyError) {
+        throw error;
+      }
+      console.error(`❌ Error calling agent ${agent.name} (${agent.id}):`, error);
+      throw new Error(`Agent ${agent.name} failed to respond: ${error.message}`);
+    } finally {
+      // Hide typing indicator
+      if (this.io) {
+        this.io.to(`conversation:${agent.id}`).emit('typing-indicator', {
+          agentId: agent.id,
+          isTyping: false
+        });
+      }
+    }
+  }
+
+  /**
+   * Helper: Stream a reply to the conversation under a provisional message id; the final
+   * 'new-message' reuses that id. `display` turns the raw model output into what users see.
+   */
+  private createReplyStream(
+    state: SharedWorkflowState,
+    agent: BackendAgent,
+    messageId: string,
+    display: (raw: string) => string = raw => raw
+  ): ReplyStream {
+    const room = `conversation:${state.conversationId}`;
+    const base = { messageId, conversationId: state.conversationId, agentId: agent.id };
+    let started = false;
+    let shown = '';
+
+    return {
+      onContent: (raw: string) => {
+        const content = display(raw);
+        if (!this.io || content === shown) return;
+
+        if (!started) {
+          this.io.to(room).emit('message-stream-start', {
+            ...base,
+            agent: { id: agent.id, name: agent.name, avatar: agent.avatar || '🤖', role: agent.role },
+            timestamp: new Date().toISOString()
+          });
+          started = true;
+        }
+
+        const event: MessageStreamDelta = {
+          ...base,
+          content,
+          ...(content.startsWith(shown) && { delta: content.substring(shown.length) })
+        };
+        this.io.to(room).emit('message-stream-delta', event);
+        shown = content;
+      },
+      end: (status) => {
+        if (this.io && started) {
+          this.io.to(room).emit('message-stream-end', { ...base, status });
+        }
+      }
+    };
+  }
+
+  /**
+   * Helper: Look up what each model in the chain can do. When the agent has tools,
+   * models known to lack tool calling are skipped, and the call is refused if none remain.
+   */
+  private async checkChainCapabilities(
+    agent: BackendAgent,
+    chain: LLMConfig[],
+    needsTools: boolean
+  ): Promise<{ chain: LLMConfig[]; models: Map<LLMConfig, ModelInfo> }> {
+    const models = new Map<LLMConfig, ModelInfo>();
+    for (const config of chain) {
+      models.set(config, await this.modelRegistry.getModel(config.provider, config.model, config.endpoint));
+    }
+
+    if (!needsTools) {
+      return { chain, models };
+    }
+
+    const capable = chain.filter(config => this.supportsCapability(models.get(config), 'toolCalling'));
+    if (capable.length === 0) {
+      throw new ModelCapabilityError(
+        `model ${chain[0].model} does not support tool calling, which ${agent.name}'s tools need. ` +
+        `Choose a model with tool support or remove the agent's tools.`,
+        chain[0].provider,
+        chain[0].model,
+        'toolCalling'
+      );
+    }
+    if (capable.length < chain.length) {
+      const skipped = chain.filter(config => !capable.includes(config)).map(config => `${config.provider}:${config.model}`);
+      console.warn(`⚠️ [MODELS] ${agent.name}: skipping ${skipped.join(', ')} (no tool calling)`);
+    }
+
+    return { chain: capable, models };
+  }
+
+  private supportsCapability(model: ModelInfo | undefined, capability: 'toolCalling' | 'jsonMode'): boolean {
+    return !model || this.modelRegistry.supports(model, capability);
+  }
+
+  /**
+   * Helper: Tool definitions for the tools an agent has enabled in its config
+   */
+  private getAgentToolDefinitions(agent: BackendAgent): ToolDefinition[] {
+    return (agent.config?.tools || [])
+      .map(toolId => this.tools.get(toolId))
+      .filter((tool): tool is AgentTool => tool !== undefined)
+      .map(tool => ({
+        name: tool.id,
+        description: tool.description,
+        parameters: tool.parameters
+      }));
+  }
+
+  /**
+   * Helper: Execute one model-requested tool call and turn the outcome into a tool message
+   */
+  private async runToolCall(agent: BackendAgent, toolCall: ToolCall, conversationId?: string): Promise<ChatMessage> {
+    const tool = this.tools.get(toolCall.name);
+    const emitToolCall = (status: string, extra: Record<string, any> = {}) => {
+      if (this.io && conversationId) {
+        this.io.to(`conversation:${conversationId}`).emit('tool-call', {
+          id: toolCall.id,
+          name: tool?.name || toolCall.name,
+          description: tool?.description || '',
+          status,
+          conversationId,
+          agentId: agent.id,
+          arguments: toolCall.arguments,
+          ...extra
+        });
+      }
+    };
+
+    console.log(`🔧 [TOOLS] ${agent.name} called ${toolCall.name}`, toolCall.arguments);
+
+    try {
+      if (!tool || !agent.config?.tools?.includes(toolCall.name)) {
+        throw new Error(`Tool ${toolCall.name} is not available to ${agent.name}`);
+      }
+
+      if (tool.sensitive) {
+        emitToolCall('requires_approval', { requiresApproval: true, approvalReason: `${tool.name} is marked sensitive` });
+        const approval = await this.requestApproval(conversationId, {
+          gate: 'sensitive-tool',
+          target: tool.id,
+          agentId: agent.id,
+          title: `${agent.name} wants to use ${tool.name}`,
+          details: { arguments: toolCall.arguments }
+        });
+        if (approval?.status !== 'approved') {
+          throw new Error(`${tool.name} was not approved: ${this.describeApproval(approval)}`);
+        }
+      }
+
+      emitToolCall('running');
+      const { result } = await this.executeTool(toolCall.name, toolCall.arguments, agent.id, { conversationId });
+      emitToolCall('completed', { result });
+
+      return {
+        role: 'tool',
+        toolCallId: toolCall.id,
+        name: toolCall.name,
+        content: typeof result === 'string' ? result : JSON.stringify(result)
+      };
+    } catch (error: any) {
+      emitToolCall('failed', { error: error.message });
+
+      return {
+        role: 'tool',
+        toolCallId: toolCall.id,
+        name: toolCall.name,
+        content: JSON.stringify({ error: error.message })
+      };
     }
   }
 
   /**
-   * Helper: Build mini workflow prompt with light collaboration context
+   * Helper: Build the agent's LLM fallback chain: its configured provider first,
+   * then any config.fallbacks entries ("provider:model" or "openai-compatible:endpoint:model")
    */
-  private buildMiniWorkflowPrompt(agent: BackendAgent, state: SharedWorkflowState): string {
-    const previousMessages = state.messages.map(msg => 
-      `${msg.agent?.name || msg.senderId}: ${msg.content}`
-    ).join('\n');
-
-    return `You are a ${agent.role} collaborating with other mentioned team members.
+  private buildLLMChain(agent: BackendAgent, conversationId?: string): LLMConfig[] {
+    const settings = {
+      temperature: agent.config?.temperature,
+      maxTokens: agent.config?.maxTokens,
+      systemPrompt: agent.config?.systemPrompt || undefined,
+      contextWindow: agent.config?.contextWindow,
+      context: { agentId: agent.id, agentRole: agent.role, conversationId },
+      signal: conversationId ? this.cancellationTokens.get(conversationId)?.signal : undefined
+    };
 
-USER REQUEST: "${state.userRequest}"
+    const chain: LLMConfig[] = [{
+      provider: agent.config?.llmProvider as LLMConfig['provider'],
+      endpoint: agent.config?.endpoint,
+      model: agent.config?.model,
+      ...settings
+    }];
+
+    for (const spec of agent.config?.fallbacks || []) {
+      const [provider, ...rest] = spec.split(':');
+      const endpoint = provider === 'openai-compatible' ? rest.shift() : undefined;
+      chain.push({
+        provider: provider as LLMConfig['provider'],
+        endpoint,
+        model: rest.join(':'),
+        ...settings
+      });
+    }
 
-PREVIOUS TEAM RESPONSES:
-${previousMessages}
+    if (!chain.some(config => config.provider && this.llmService.isProviderAvailable(config.provider, config.endpoint))) {
+      const providerNames = chain.map(config => config.endpoint ? `${config.provider}:${config.endpoint}` : config.provider || 'none');
+      throw new Error(
+        `LLM provider "${providerNames.join('", "')}" is not available for agent ${agent.name}. ` +
+        `Configure the provider or change the agent's llmProvider.`
+      );
+    }
 
-Your role is to contribute your expertise to help address the user's request. Keep your response focused and collaborative.
+    return chain;
+  }
 
-Respond naturally - this is a brief collaboration, not a full project workflow.`;
+  /**
+   * Helper: Message metadata recording which provider and model produced a reply
+   */
+  private getReplySourceMetadata(source: AgentReplySource): Record<string, any> {
+    return {
+      provider: source.provider,
+      model: source.model,
+      ...(source.endpoint && { endpoint: source.endpoint }),
+      ...(source.attempts?.length && { fallbackAttempts: source.attempts })
+    };
   }
 
   /**
-   * Helper: Call agent with proper error handling
+   * Helper: Surface an agent failure as a system message in the conversation
    */
-  private async callAgent(agent: BackendAgent, prompt: string): Promise<string> {
-    // Show typing indicator
-    if (this.io) {
-      this.io.to(`conversation:${agent.id}`).emit('typing-indicator', {
+  private async addAgentErrorMessage(state: SharedWorkflowState, agent: BackendAgent, error: any): Promise<void> {
+    const message: Message = {
+      id: `error-${Date.now()}-${agent.id}`,
+      conversationId: state.conversationId,
+      senderId: 'system',
+      content: `⚠️ ${agent.name} could not respond: ${error.message}`,
+      type: 'system',
+      timestamp: new Date().toISOString(),
+      metadata: {
+        error: true,
+        errorType: error?.name,
         agentId: agent.id,
-        isTyping: true
-      });
-    }
+        provider: agent.config?.llmProvider,
+        model: agent.config?.model
+      }
+    };
 
-    try {
-      // Use agent's configured model
-      const agentModel = agent.config?.model || 'llama3';
-      const agentLLM = new ChatOllama({ model: agentModel });
-      
-      const messages = [new HumanMessage(prompt)];
-      const response = await agentLLM.invoke(messages);
-      return response.content as string;
-    } catch (error) {
-      console.error(`❌ Error calling agent ${agent.name} (${agent.id}):`, error);
-      throw new Error(`Agent ${agent.name} failed to respond: ${error.message}`);
-    } finally {
-      // Hide typing indicator
-      if (this.io) {
-        this.io.to(`conversation:${agent.id}`).emit('typing-indicator', {
-          agentId: agent.id,
-          isTyping: false
+    await this.publishMessage(state, message);
+    await this.recordAgentTurn(state, agent.id, 'error', { messageId: message.id, detail: error.message });
+  }
+
+  /**
+   * Helper: Save a workflow message to the conversation and send it to clients once.
+   * ConversationService broadcasts what it saves; if saving fails the message is still shown.
+   */
+  private async publishMessage(state: SharedWorkflowState, message: Message): Promise<void> {
+    state.messages.push(message);
+
+    if (this.conversationService) {
+      try {
+        await this.conversationService.createMessage({
+          id: message.id,
+          conversationId: message.conversationId,
+          senderId: message.senderId,
+          content: message.content,
+          type: message.type as CreateMessageDto['type'],
+          metadata: message.metadata
         });
+        return;
+      } catch (error: any) {
+        console.error(`❌ [WORKFLOW] Failed to save message ${message.id}:`, error.message);
       }
     }
+
+    if (this.io) {
+      this.io.to(`conversation:${state.conversationId}`).emit('new-message', message);
+    }
   }
 
   /**
@@ -709,273 +2436,452 @@ Respond naturally - this is a brief collaboration, not a full project workflow.`
     return agent?.id;
   }
 
+  /**
+   * Run one round of agents as a dependency graph: each agent starts once the round's agents it
+   * depends on have finished, up to maxConcurrentAgents at a time. Replies are recorded and
+   * published in dependency order, so knowledge merges and messages don't depend on timing.
+   */
   private async processAgentRound(state: SharedWorkflowState): Promise<void> {
-    const currentAgents = [...state.nextAgents];
+    const dependencies = this.getRoundDependencies(state, state.nextAgents);
+    const currentAgents = this.orderByDependencies(state.nextAgents, dependencies);
     state.activeAgents = currentAgents;
     state.nextAgents = [];
     
-    // Process agents in sequence (not parallel) for proper state sharing
+    const maxConcurrent = this.workflowValidator.getDefaultValidation().maxConcurrentAgents;
+    let freeSlots = maxConcurrent;
+    const waitingForSlot: Array<() => void> = [];
+    const acquireSlot = () => freeSlots > 0
+      ? (freeSlots--, Promise.resolve())
+      : new Promise<void>(resolve => waitingForSlot.push(resolve));
+    const releaseSlot = () => {
+      const next = waitingForSlot.shift();
+      if (next) {
+        next();
+      } else {
+        freeSlots++;
+      }
+    };
+    
+    const notStarted: string[] = [];
+    const finished = new Map<string, Promise<void>>();
+    let previous: Promise<void> = Promise.resolve();
+    
     for (const agentId of currentAgents) {
-      console.log(`🤖 Processing agent: ${agentId}`);
-      
-      try {
-        const contribution = await this.invokeAgent(agentId, state);
-        
-        // Update shared state with contribution
-        state.agentContributions[agentId] = contribution;
-        this.updateSharedKnowledge(state, contribution);
-        
-        // Add message for UI - extract actual message from JSON if needed
-        let displayMessage = contribution.message;
-        
-        // If the message is raw JSON, try to extract the actual message
-        if (typeof contribution.message === 'string' && contribution.message.trim().startsWith('{')) {
-          try {
-            const jsonMatch = contribution.message.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              const cleanedJson = jsonMatch[0]
-                .replace(/[\u0000-\u001F\u007F-\u009F]/g, '')
-                .replace(/\n/g, '\\n')
-                .replace(/\r/g, '\\r')
-                .replace(/\t/g, '\\t')
-                .replace(/,\s*}/g, '}')
-                .replace(/,\s*]/g, ']');
-              
-              const parsed = JSON.parse(cleanedJson);
-              displayMessage = parsed.message || 'Agent analysis completed';
-            }
-          } catch (error) {
-            displayMessage = 'Agent analysis completed';
-          }
+      const turn = previous;
+      const run = (async () => {
+        await Promise.all(dependencies[agentId].map(id => finished.get(id)));
+        // Waiting for a person doesn't hold a slot
+        if (!this.isCancelled(state) && !await this.approveAgentRun(state, agentId)) {
+          return;
         }
+        await acquireSlot();
         
-        const message = {
-          id: `${agentId}-${Date.now()}`,
-          conversationId: state.conversationId,
-          senderId: agentId,
-          content: displayMessage,
-          type: 'text',
-          timestamp: new Date().toISOString(),
-          metadata: {
-            round: state.collaborationRound,
-            phase: state.phase,
-            knowledgeUpdates: contribution.knowledgeUpdates
+        let slotHeld = true;
+        const freeSlot = () => {
+          if (slotHeld) {
+            slotHeld = false;
+            releaseSlot();
           }
         };
         
-        state.messages.push(message);
-        
-        // Stream the message in real-time if Socket.IO is available
-        if (this.io) {
-          this.io.to(`conversation:${state.conversationId}`).emit('new-message', message);
-          console.log(`📤 [STREAM] Emitted message from ${agentId}: ${displayMessage.substring(0, 100)}...`);
+        try {
+          if (this.isCancelled(state)) {
+            notStarted.push(agentId);
+            return;
+          }
+          
+          console.log(`🤖 Processing agent: ${agentId}`);
+          // The slot frees up as soon as the reply is generated; recording it waits for the agents ahead
+          const contribution = await this.contributeAgent(agentId, state, async () => {
+            freeSlot();
+            await turn;
+          });
+          
+          // Determine which agents should go next - only if they haven't contributed yet
+          const enabledAgents = contribution.enablesAgents
+            .map(reference => this.resolveHandoff(state, agentId, reference))
+            .filter((id): id is string => 
+              id !== undefined && 
+              !state.agentContributions[id] &&
+              !state.nextAgents.includes(id) &&
+              !currentAgents.includes(id) && // Don't enable agents that are in this round
+              id !== agentId // Don't enable the current agent again
+            );
+          
+          state.nextAgents.push(...enabledAgents);
+          // @mentions in the message bring in agents the structured hand-offs left out
+          state.nextAgents.push(...await this.chainMentionedAgents(state, agentId, contribution.message, id =>
+            !state.agentContributions[id] && !currentAgents.includes(id)
+          ));
+          await this.recordAgentTurn(state, agentId, 'success', { messageId: contribution.messageId });
+          
+        } catch (error: any) {
+          freeSlot();
+          await turn;
+          if (error instanceof LLMCancelledError) {
+            console.log(`🛑 Agent ${agentId} was cancelled`);
+            state.cancelled = true;
+            return;
+          }
+          console.error(`❌ Error processing agent ${agentId}:`, error);
+          state.error = `Agent ${agentId} failed: ${error.message}`;
+          
+          const failedAgent = this.agentInfo.find(a => a.id === agentId);
+          if (failedAgent) {
+            await this.addAgentErrorMessage(state, failedAgent, error);
+          }
+        } finally {
+          freeSlot();
         }
-        
-        // Determine which agents should go next - only if they haven't contributed yet
-        const enabledAgents = contribution.enablesAgents
-          .map(role => this.getAgentIdByRole(role))
-          .filter((id): id is string => 
-            id !== undefined && 
-            this.teamAgents.includes(id) && 
-            !state.agentContributions[id] &&
-            !state.nextAgents.includes(id) &&
-            !currentAgents.includes(id) && // Don't enable agents that are currently processing
-            id !== agentId // Don't enable the current agent again
-          );
-        
-        state.nextAgents.push(...enabledAgents);
-        
-      } catch (error) {
-        console.error(`❌ Error processing agent ${agentId}:`, error);
-        state.error = `Agent ${agentId} failed: ${error.message}`;
-      }
+      })();
+      
+      finished.set(agentId, run);
+      previous = run;
     }
     
+    await Promise.all(finished.values());
+    
+    // Agents the cancel caught before they started stay queued so the cancel event can report them
+    state.nextAgents.push(...currentAgents.filter(agentId => notStarted.includes(agentId)));
+    
     // Remove duplicates from nextAgents
     state.nextAgents = [...new Set(state.nextAgents)];
   }
 
-  private async invokeAgent(agentId: string, state: SharedWorkflowState, isSolo: boolean = false): Promise<AgentContribution> {
-    const agent = this.agentInfo.find(a => a.id === agentId);
-    if (!agent) {
-      throw new Error(`Agent ${agentId} not found`);
+  /**
+   * Helper: For each agent in a round, the other agents in the round it depends on, going by the
+   * dependsOn list it gave in its latest contribution to the conversation, else its team membership
+   */
+  private getRoundDependencies(state: SharedWorkflowState, roundAgents: string[]): Record<string, string[]> {
+    const declared = this.agentDependencies.get(state.conversationId) || {};
+    // Agents that haven't said who they depend on yet wait for whom the team says they do
+    const dependenciesOf = (agentId: string) =>
+      declared[agentId] || state.team?.members.find(member => member.agentId === agentId)?.dependsOn || [];
+    
+    return Object.fromEntries(roundAgents.map(agentId => [
+      agentId,
+      dependenciesOf(agentId).filter(id => id !== agentId && roundAgents.includes(id))
+    ]));
+  }
+
+  /**
+   * Helper: Round agents with every agent after the ones it depends on, otherwise in handoff order.
+   * Dependency cycles are broken at the agent that was handed the work first, and its
+   * dependencies are trimmed to the agents now ahead of it.
+   */
+  private orderByDependencies(roundAgents: string[], dependencies: Record<string, string[]>): string[] {
+    const ordered: string[] = [];
+    const remaining = [...new Set(roundAgents)];
+    
+    while (remaining.length > 0) {
+      const next = remaining.find(agentId => dependencies[agentId].every(id => ordered.includes(id))) || remaining[0];
+      ordered.push(next);
+      remaining.splice(remaining.indexOf(next), 1);
     }
     
-    const prompt = isSolo 
-      ? this.buildSoloPrompt(agent, state.userRequest)
-      : this.buildSharedStatePrompt(agentId, agent.role, state);
+    for (const agentId of ordered) {
+      dependencies[agentId] = dependencies[agentId].filter(id => ordered.indexOf(id) < ordered.indexOf(agentId));
+    }
+    return ordered;
+  }
+
+  /**
+   * Helper: Remember who an agent says it depends on, so later rounds in the conversation schedule by it
+   */
+  private recordDependencies(state: SharedWorkflowState, contribution: AgentContribution): void {
+    const dependsOn = contribution.dependsOn
+      .map(reference => this.findTeamAgent(state, reference)?.id)
+      .filter((id): id is string => id !== undefined && id !== contribution.agentId);
     
-    // Use the agent's specific model instead of the default one
-    const response = await this.callAgent(agent, prompt);
+    const declared = this.agentDependencies.get(state.conversationId) || {};
+    declared[contribution.agentId] = [...new Set(dependsOn)];
+    this.agentDependencies.set(state.conversationId, declared);
+  }
+
+  /**
+   * Helper: Get an agent's structured contribution, record it in the shared state and
+   * publish its message, streaming the message text while it is generated. With beforeRecord,
+   * the generated contribution waits for it before touching the shared state. Returns the
+   * contribution along with the ID of its message.
+   */
+  private async contributeAgent(
+    agentId: string,
+    state: SharedWorkflowState,
+    beforeRecord?: () => Promise<void>
+  ): Promise<AgentContribution & { messageId: string }> {
+    const messageId = `${agentId}-${Date.now()}`;
+    const streamAgent = this.agentInfo.find(a => a.id === agentId);
+    // Contributions arrive as JSON; users watch the "message" field fill in
+    const stream = streamAgent
+      ? this.createReplyStream(state, streamAgent, messageId, raw => readPartialStringField(raw, 'message'))
+      : undefined;
     
     try {
-      // Try to extract JSON from the response
-      const content = response; // response is now a string from callAgent
-      console.log(`🔍 [PARSER] Raw response from ${agentId}:`, content.substring(0, 200) + '...');
+      this.recordAgentStart(state, agentId);
+      const contribution = await this.invokeAgent(agentId, state, false, stream?.onContent);
+      await beforeRecord?.();
       
-      // First, try to find JSON in the response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      // Update shared state with contribution
+      state.agentContributions[agentId] = contribution;
+      this.updateSharedKnowledge(state, contribution);
+      this.recordDependencies(state, contribution);
       
-      if (jsonMatch) {
-        const jsonStr = jsonMatch[0];
-        console.log(`🔍 [PARSER] Found JSON match for ${agentId}:`, jsonStr.substring(0, 200) + '...');
-        
-        // Clean the JSON string to handle control characters
-        const cleanedJson = jsonStr
-          .replace(/[\u0000-\u001F\u007F-\u009F]/g, '') // Remove control characters
-          .replace(/\n/g, '\\n') // Escape newlines
-          .replace(/\r/g, '\\r') // Escape carriage returns
-          .replace(/\t/g, '\\t') // Escape tabs
-          .replace(/,\s*}/g, '}') // Remove trailing commas
-          .replace(/,\s*]/g, ']'); // Remove trailing commas in arrays
-        
-        console.log(`🔍 [PARSER] Cleaned JSON for ${agentId}:`, cleanedJson.substring(0, 200) + '...');
-        
-        const parsed = JSON.parse(cleanedJson);
-        
-        return {
-          agentId,
+      const message = {
+        id: messageId,
+        conversationId: state.conversationId,
+        senderId: agentId,
+        content: contribution.message,
+        type: 'text',
+        timestamp: new Date().toISOString(),
+        metadata: {
+          workflowMode: state.workflowMode,
           round: state.collaborationRound,
-          timestamp: new Date().toISOString(),
-          knowledgeUpdates: parsed.knowledgeUpdates || {},
-          dependsOn: parsed.dependsOn || [],
-          enablesAgents: parsed.enablesAgents || [],
-          status: 'complete',
-          message: parsed.message || 'Agent analysis completed',
-          reasoning: parsed.reasoning
-        };
-      } else {
-        // No JSON found, create a fallback contribution
-        console.log(`⚠️ No JSON found in response for ${agentId}, using fallback`);
-        
-        // Try to extract enabled agents from the text
-        const enabledAgents: string[] = [];
-        if (content.includes('designer')) enabledAgents.push('designer');
-        if (content.includes('frontend-developer')) enabledAgents.push('frontend-developer');
-        if (content.includes('backend-developer')) enabledAgents.push('backend-developer');
-        
+          phase: this.getCurrentPhase(state),
+          ...(state.template && { templateId: state.template.templateId, iteration: state.template.iterations }),
+          knowledgeUpdates: contribution.knowledgeUpdates,
+          ...(contribution.producedBy && this.getReplySourceMetadata(contribution.producedBy)),
+          ...(contribution.contextBudget && { contextBudget: contribution.contextBudget })
+        }
+      };
+      
+      await this.publishMessage(state, message);
+      console.log(`📤 [STREAM] Emitted message from ${agentId}: ${contribution.message.substring(0, 100)}...`);
+      stream?.end('complete');
+      return { ...contribution, messageId };
+    } catch (error: any) {
+      stream?.end(error instanceof LLMCancelledError ? 'cancelled' : 'failed');
+      throw error;
+    }
+  }
+
+  private async invokeAgent(
+    agentId: string,
+    state: SharedWorkflowState,
+    isSolo: boolean = false,
+    onContent?: (content: string) => void
+  ): Promise<AgentContribution> {
+    const agent = this.agentInfo.find(a => a.id === agentId);
+    if (!agent) {
+      throw new Error(`Agent ${agentId} not found`);
+    }
+    
+    const model = await this.getAgentModel(agent);
+    const { prompt, contextBudget } = isSolo 
+      ? this.buildSoloPrompt(agent, state, model)
+      : this.buildSharedStatePrompt(agent, state, model);
+    const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+    const responseFormat: ResponseFormat = { name: 'agent_contribution', schema: AGENT_CONTRIBUTION_SCHEMA };
+    
+    for (let attempt = 1; ; attempt++) {
+      // Use the agent's specific model instead of the default one
+      const reply = await this.callAgent(agent, messages, state.conversationId, {
+        responseFormat,
+        priority: isSolo ? 'interactive' : 'normal',
+        onContent
+      });
+      console.log(`🔍 [PARSER] Raw response from ${agentId}:`, reply.content.substring(0, 200) + '...');
+      
+      const { value: parsed, errors } = parseStructuredOutput<Pick<AgentContribution, 'knowledgeUpdates' | 'dependsOn' | 'enablesAgents' | 'message' | 'reasoning' | 'phaseComplete'>>(
+        reply.content,
+        AGENT_CONTRIBUTION_SCHEMA
+      );
+      
+      if (parsed) {
         return {
           agentId,
           round: state.collaborationRound,
           timestamp: new Date().toISOString(),
-          knowledgeUpdates: {},
-          dependsOn: [],
-          enablesAgents: enabledAgents,
+          knowledgeUpdates: parsed.knowledgeUpdates,
+          dependsOn: parsed.dependsOn,
+          enablesAgents: parsed.enablesAgents,
           status: 'complete',
-          message: content,
-          reasoning: 'Used fallback parsing - no JSON found'
+          message: parsed.message,
+          reasoning: parsed.reasoning,
+          phaseComplete: parsed.phaseComplete,
+          producedBy: {
+            provider: reply.provider,
+            model: reply.model,
+            endpoint: reply.endpoint,
+            attempts: reply.attempts
+          },
+          contextBudget
         };
       }
       
-    } catch (error) {
-      console.error(`❌ Failed to parse agent response for ${agentId}:`, error);
+      console.warn(`⚠️ [PARSER] Invalid contribution from ${agentId} (attempt ${attempt}): ${errors.join('; ')}`);
       
-      // Final fallback contribution
-      const content = response; // response is now a string from callAgent
-      const enabledAgents: string[] = [];
-      if (content.includes('designer')) enabledAgents.push('designer');
-      if (content.includes('frontend-developer')) enabledAgents.push('frontend-developer');
-      if (content.includes('backend-developer')) enabledAgents.push('backend-developer');
+      if (attempt > this.maxRepairAttempts) {
+        throw new StructuredOutputError(
+          `${agent.name} did not return a valid contribution after ${attempt} attempts: ${errors.join('; ')}`,
+          reply.content,
+          errors,
+          attempt
+        );
+      }
       
-      return {
-        agentId,
-        round: state.collaborationRound,
-        timestamp: new Date().toISOString(),
-        knowledgeUpdates: {},
-        dependsOn: [],
-        enablesAgents: enabledAgents,
-        status: 'complete',
-        message: content || 'Agent response was invalid',
-        reasoning: 'Failed to parse structured response'
-      };
+      // Ask the model to fix its own output
+      messages.push(
+        { role: 'assistant', content: reply.content },
+        {
+          role: 'user',
+          content: `Your response does not match the required JSON format:\n- ${errors.join('\n- ')}\n\nRespond again with ONLY the corrected JSON object.`
+        }
+      );
     }
   }
 
-  private buildSharedStatePrompt(agentId: string, role: string, state: SharedWorkflowState): string {
-    const baseContext = `
-You are a ${role} in a collaborative team working on: "${state.userRequest}"
-
-CURRENT SHARED KNOWLEDGE:
-${JSON.stringify(state.sharedKnowledge, null, 2)}
+  /**
+   * Build the full-workflow prompt, trimming older contributions and knowledge
+   * entries so it fits the agent's context window
+   */
+  private buildSharedStatePrompt(agent: BackendAgent, state: SharedWorkflowState, model: ModelInfo): { prompt: string; contextBudget: ContextBudgetReport } {
+    const render = (kept: BudgetItem[]) => this.renderSharedStatePrompt(agent, state, kept);
+    const { items, report } = this.fitToContextWindow(agent, model, render([]), [
+      ...(this.priorContexts.get(state.conversationId) || []),
+      ...this.getSharedStateBudgetItems(state)
+    ]);
+
+    return { prompt: render(items), contextBudget: report };
+  }
 
-PREVIOUS TEAM CONTRIBUTIONS:
-${Object.entries(state.agentContributions).map(([id, contrib]) => 
-  `${id}: ${contrib.message}`
-).join('\n')}
+  /**
+   * Helper: Keep as many prompt items as fit the agent's context window next to the fixed prompt text.
+   * The report lists the items kept, so each reply records what it was based on.
+   */
+  private fitToContextWindow(
+    agent: BackendAgent,
+    model: ModelInfo,
+    fixedText: string,
+    items: BudgetItem[]
+  ): { items: BudgetItem[]; report: ContextBudgetReport } {
+    const fitted = this.contextBudgeter.fit(
+      {
+        provider: agent.config?.llmProvider,
+        model: agent.config?.model,
+        contextWindow: agent.config?.contextWindow,
+        modelContextWindow: model.capabilities.contextWindow,
+        maxOutputTokens: agent.config?.maxTokens
+      },
+      fixedText + (agent.config?.systemPrompt || ''),
+      items
+    );
 
-AVAILABLE TEAM MEMBERS: ${this.teamAgents.join(', ')}
+    const { report } = fitted;
+    if (report.summarized.length > 0 || report.dropped.length > 0) {
+      console.log(`✂️ [CONTEXT] ${agent.name}: summarized ${report.summarized.length}, dropped ${report.dropped.length} items to fit ${report.budget} tokens`);
+    }
+    return fitted;
+  }
 
-IMPORTANT: You MUST respond with ONLY valid JSON. No text before or after the JSON.
-`;
+  /**
+   * Helper: Load the channel history and memory a run's prompts draw on. Runs go ahead without it when it can't be loaded.
+   */
+  private async loadPriorContext(state: SharedWorkflowState): Promise<void> {
+    if (!this.contextAssembler) return;
+    
+    const excluded = [...(state.requestMessageId ? [state.requestMessageId] : []), ...state.messages.map(message => message.id)];
+    const items = await this.contextAssembler.assemble(state.conversationId, state.userRequest, excluded);
+    this.priorContexts.set(state.conversationId, items);
+    console.log(`📚 [CONTEXT] Loaded ${items.filter(item => item.kind === 'history').length} earlier messages and ${items.filter(item => item.kind === 'memory').length} memory entries`);
+  }
 
-    const rolePrompts = {
-      coordinator: `${baseContext}
-As PROJECT COORDINATOR, analyze "${state.userRequest}" and provide collaborative direction for the team.
+  /**
+   * Helper: The kept history and memory items as prompt sections; empty when none were kept
+   */
+  private renderPriorContext(kept: BudgetItem[]): string {
+    const section = (title: string, kind: string) => {
+      const lines = kept.filter(item => item.kind === kind).map(item => `- ${item.text}`);
+      return lines.length > 0 ? `\n${title}:\n${lines.join('\n')}\n` : '';
+    };
+    return section('EARLIER IN THIS CONVERSATION', 'history') + section('WHAT THE TEAM REMEMBERS', 'memory');
+  }
 
-RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual analysis):
-{
-  "knowledgeUpdates": {
-    "requirements": ["Create a visually appealing landing page", "Use vibrant colors and modern design", "Ensure responsive layout"],
-    "decisions": ["Use modern CSS framework", "Implement smooth animations", "Focus on user engagement"],
-    "tasks": ["Design wireframes", "Create color palette", "Plan responsive breakpoints"]
-  },
-  "dependsOn": [],
-  "enablesAgents": ["designer", "frontend-developer", "backend-developer"],
-  "message": "Based on the user request, our team will need to collaborate on creating a beautiful, vibrant 'Hello World' page. I need @designer to help us define the color palette and typography for this page. Then, @frontend can start building the basic HTML structure and styling it with CSS. Finally, @backend can help us integrate any necessary API calls or database interactions for our 'Hello World' message. Let's work together to create a stunning page!",
-  "reasoning": "The user wants a beautiful and vibrant page, so I'm coordinating natural collaboration between design, frontend, and backend specialists."
-}`,
+  private getAgentModel(agent: BackendAgent): Promise<ModelInfo> {
+    return this.modelRegistry.getModel(agent.config?.llmProvider, agent.config?.model, agent.config?.endpoint);
+  }
 
-      designer: `${baseContext}
-As UI/UX DESIGNER, based on the coordinator's analysis of "${state.userRequest}", provide collaborative design recommendations.
+  /**
+   * Helper: Shared knowledge entries and earlier contributions as removable prompt items, oldest first.
+   * Knowledge entries are evicted before contributions; contributions are summarized before either is dropped.
+   */
+  private getSharedStateBudgetItems(state: SharedWorkflowState): BudgetItem[] {
+    const items: BudgetItem[] = [];
 
-RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual design analysis):
-{
-  "knowledgeUpdates": {
-    "decisions": ["Use gradient backgrounds for vibrancy", "Implement glassmorphism effects", "Choose bold typography"],
-    "tasks": ["Create color palette with vibrant hues", "Design hero section with animations", "Plan interactive elements"],
-    "requirements": ["Ensure accessibility compliance", "Optimize for mobile devices", "Include loading animations"]
-  },
-  "dependsOn": ["coordinator"],
-  "enablesAgents": ["frontend-developer"],
-  "message": "Based on the shared knowledge and user request, I propose a design approach that prioritizes simplicity and ease of use. The layout will be clean and uncluttered, with clear calls to action and sufficient white space to guide the user's eye. The color scheme will be vibrant and consistent throughout, with accent colors used sparingly to draw attention to important elements. I will work closely with @frontend to ensure that the design is implemented correctly and meets the user's needs.",
-  "reasoning": "The user wants 'beautiful and vibrant', so I'm focusing on modern design trends while ensuring the design works well with frontend implementation."
-}`,
+    for (const [key, value] of Object.entries(state.sharedKnowledge)) {
+      const entries: string[] = Array.isArray(value) ? value : value.split('\n').filter(line => line.trim());
+      entries.forEach((entry, index) => {
+        items.push({ id: `knowledge:${key}:${index}`, kind: 'knowledge', text: entry, priority: 0 });
+      });
+    }
 
-      'frontend-developer': `${baseContext}
-As FRONTEND DEVELOPER, based on the coordinator's requirements and designer's decisions for "${state.userRequest}", provide collaborative technical implementation details.
+    for (const [id, contribution] of Object.entries(state.agentContributions)) {
+      const message = contribution?.message || '';
+      items.push({
+        id: `contribution:${id}`,
+        kind: 'contribution',
+        text: message,
+        priority: 1,
+        ...(message.length > 200 && { summary: `${message.substring(0, 200)}... (truncated)` })
+      });
+    }
 
-RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual technical analysis):
-{
-  "knowledgeUpdates": {
-    "decisions": ["Use React with TypeScript", "Implement CSS-in-JS for dynamic styling", "Add Framer Motion for animations"],
-    "integrationPoints": ["API endpoint for dynamic content", "WebSocket for real-time updates"],
-    "tasks": ["Set up React project structure", "Create reusable components", "Implement responsive design"]
-  },
-  "dependsOn": ["coordinator", "designer"],
-  "enablesAgents": ["backend-developer"],
-  "message": "I will build on the design and requirements provided, using a modular and scalable frontend approach. I will ensure that the design is consistent across different pages and elements, and that the user experience is intuitive and easy to navigate. I will also consider integration with @backend services and data sources to enhance the functionality of the page.",
-  "reasoning": "React provides the flexibility needed for a vibrant, interactive page, TypeScript ensures code quality, and I need to coordinate with backend for API integration."
-}`,
+    return items;
+  }
 
-      'backend-developer': `${baseContext}
-As BACKEND DEVELOPER, based on all previous team contributions for "${state.userRequest}", provide collaborative backend implementation details.
+  private renderSharedStatePrompt(agent: BackendAgent, state: SharedWorkflowState, keptItems: BudgetItem[]): string {
+    const kept = new Map(keptItems.map(item => [item.id, item.text]));
+    const keptEntries = (key: string, entries: string[]) =>
+      entries.map((_entry, index) => kept.get(`knowledge:${key}:${index}`)).filter((entry): entry is string => entry !== undefined);
+
+    const sharedKnowledge = Object.fromEntries(
+      Object.entries(state.sharedKnowledge).map(([key, value]) => [
+        key,
+        Array.isArray(value)
+          ? keptEntries(key, value)
+          : keptEntries(key, value.split('\n').filter(line => line.trim())).join('\n')
+      ])
+    );
 
-RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actual backend analysis):
-{
-  "knowledgeUpdates": {
-    "decisions": ["Use Node.js with Express", "Implement RESTful API", "Add WebSocket support"],
-    "integrationPoints": ["Content management API", "Real-time messaging system"],
-    "tasks": ["Set up Express server", "Create API endpoints", "Implement WebSocket connections"],
-    "completedTasks": ["Technical analysis complete"]
-  },
-  "dependsOn": ["coordinator", "designer", "frontend-developer"],
-  "enablesAgents": [],
-  "message": "Based on the frontend requirements and design specifications, I'll implement a Node.js Express server with RESTful API endpoints for content management and WebSocket support for real-time features. The backend will provide the necessary infrastructure to support the vibrant, interactive frontend experience, including API endpoints for dynamic content and real-time messaging capabilities.",
-  "reasoning": "Node.js with Express provides the performance and flexibility needed, while WebSocket support enables real-time interactions that enhance the vibrant user experience."
-}`
+    const teamAgents = state.team ? this.getTeamAgents(state.team) : [];
+    const describe = (agentId: string) => {
+      const member = teamAgents.find(a => a.id === agentId);
+      return member ? `${member.name} (${member.role}, id: ${member.id})` : agentId;
     };
+    const handoffs = teamAgents
+      .filter(member => this.canHandOff(state.team, agent.id, member.id))
+      .map(member => member.id);
+
+    const baseContext = `
+You are ${agent.name}, the ${agent.role} in a collaborative team working on: "${state.userRequest}"
+${this.renderPriorContext(keptItems)}
+CURRENT SHARED KNOWLEDGE:
+${JSON.stringify(sharedKnowledge, null, 2)}
+
+PREVIOUS TEAM CONTRIBUTIONS:
+${Object.keys(state.agentContributions)
+  .filter(id => kept.has(`contribution:${id}`))
+  .map(id => `${describe(id)}: ${kept.get(`contribution:${id}`)}`)
+  .join('\n')}
+
+TEAM MEMBERS:
+${teamAgents.map(member => `- ${describe(member.id)}`).join('\n')}
+
+${state.template
+  ? `WORKFLOW "${state.template.name}", CURRENT PHASE: ${state.template.phase}
+Work on the ${state.template.phase} phase. Add "phaseComplete": true to your JSON once it is finished, or false if more work is needed.`
+  : `YOU CAN HAND OFF TO (list their IDs or roles in "enablesAgents"): ${handoffs.join(', ') || 'nobody'}`}
+
+IMPORTANT: You MUST respond with ONLY valid JSON. No text before or after the JSON.
+`;
 
-    return rolePrompts[role] || `${baseContext}\nProvide your contribution as a ${role}.`;
+    const member = state.team?.members.find(m => m.agentId === agent.id);
+    const fill = (template: string) => template.split('{{request}}').join(state.userRequest).split('{{role}}').join(agent.role);
+    const builtin = ROLE_PROMPT_TEMPLATES[agent.role];
+
+    if (!member?.rolePrompt && builtin) {
+      return `${baseContext}\n${fill(builtin)}`;
+    }
+    return `${baseContext}\n${fill(member?.rolePrompt || DEFAULT_ROLE_PROMPT)}\n\n${CONTRIBUTION_FORMAT_PROMPT}`;
   }
 
   private updateSharedKnowledge(state: SharedWorkflowState, contribution: AgentContribution): void {
@@ -1000,21 +2906,21 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
   }
 
   private updateWorkflowPhase(state: SharedWorkflowState): void {
-    // Determine next phase based on contributions
-    if (state.agentContributions.coordinator && !state.agentContributions.designer) {
-      state.phase = 'coordination';
-    } else if (state.agentContributions.designer && !state.agentContributions['frontend-developer']) {
-      state.phase = 'collaboration';
-    } else if (Object.keys(state.agentContributions).length >= 3) {
+    // Determine next phase based on contributions: the lead first, then the rest of the team
+    const contributors = Object.keys(state.agentContributions);
+    const memberContributors = contributors.filter(id => id !== state.team?.leadAgentId);
+    if (contributors.length >= 3) {
       state.phase = 'integration';
+    } else if (memberContributors.length > 0) {
+      state.phase = 'collaboration';
+    } else if (contributors.length > 0) {
+      state.phase = 'coordination';
     }
     
     // Check if we should continue or complete
-    // Only check if mentioned agents have contributed, not all team agents
+    // Only check if mentioned agents have contributed; otherwise run until no hand-offs remain
     const mentionedAgents = this.parseMentions(state.userRequest);
-    const expectedAgents = mentionedAgents.length > 0 ? mentionedAgents : [this.getAgentIdByRole('coordinator')].filter((id): id is string => id !== undefined);
-    
-    const allExpectedAgentsContributed = expectedAgents.every(agentId => 
+    const allExpectedAgentsContributed = mentionedAgents.length > 0 && mentionedAgents.every(agentId => 
       state.agentContributions[agentId] !== undefined
     );
     
@@ -1028,6 +2934,7 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
    */
   public clearConversationState(conversationId: string): void {
     this.conversationStates.delete(conversationId);
+    this.agentDependencies.delete(conversationId);
     console.log(`🧹 [WORKFLOW] Cleared state for conversation ${conversationId}`);
   }
 
@@ -1104,14 +3011,8 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
       // Update agentInfo for workflow processing
       this.agentInfo = Array.from(this.agents.values());
       
-      // Update team agents list
-      this.teamAgents = this.agentInfo
-        .filter(agent => ['coordinator', 'designer', 'frontend-developer', 'backend-developer'].includes(agent.role))
-        .map(agent => agent.id);
-      
       console.log(`✅ [WORKFLOW] Loaded ${uniqueAgents.size} agents:`, 
         Array.from(uniqueAgents.values()).map(a => `${a.name} (${a.role})`));
-      console.log(`🎯 [WORKFLOW] Team agents: ${this.teamAgents.join(', ')}`);
     } catch (error) {
       console.error('❌ [WORKFLOW] Error loading agents:', error);
       throw error;
@@ -1315,6 +3216,14 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
     }
   }
 
+  /**
+   * Register a tool agents can enable and call
+   */
+  registerTool(tool: AgentTool): void {
+    this.tools.set(tool.id, tool);
+    console.log(`🔧 [WORKFLOW] Registered tool: ${tool.name} (${tool.id})`);
+  }
+
   /**
    * Get available tools
    */
@@ -1322,21 +3231,22 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
     return Array.from(this.tools.values()).map(tool => ({
       id: tool.id,
       name: tool.name,
-      description: tool.description
+      description: tool.description,
+      parameters: tool.parameters
     }));
   }
 
   /**
    * Execute a tool
    */
-  async executeTool(toolId: string, params: any, agentId: string): Promise<any> {
+  async executeTool(toolId: string, params: any, agentId: string, context: ToolExecutionContext = {}): Promise<any> {
     const tool = this.tools.get(toolId);
     if (!tool) {
       throw new Error(`Tool ${toolId} not found`);
     }
 
     try {
-      const result = await tool.execute(params, agentId);
+      const result = await tool.execute(params, agentId, context);
       return { success: true, result };
     } catch (error) {
       console.error(`❌ [WORKFLOW] Error executing tool ${toolId}:`, error);
@@ -1348,12 +3258,17 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
    * Reset orchestrator state
    */
   reset(): void {
-    this.activeProcessing.clear();
+    // Stop every run and settle the messages queued behind it, as a per-conversation reset does
+    const conversationIds = new Set([...this.activeProcessing.keys(), ...this.messageQueues.keys(), ...this.cancellationTokens.keys()]);
+    for (const conversationId of conversationIds) {
+      this.resetConversationState(conversationId, 'Orchestrator reset');
+    }
     this.messageHistory.clear();
     this.conversationCycles.clear();
     this.recentResponders.clear();
     this.conversationModes.clear();
     this.conversationStates.clear();
+    this.agentDependencies.clear();
     console.log(`🔄 [WORKFLOW] Orchestrator state reset`);
   }
 
@@ -1363,12 +3278,18 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
   public resetConversationState(conversationId: string, reason: string = 'Manual reset'): void {
     console.log(`🔄 [RESET] Resetting conversation state for ${conversationId}: ${reason}`);
     
+    // Stop the run holding the lock and everything queued behind it
+    this.cancelWorkflow(conversationId, reason);
+    this.dropQueuedMessages(conversationId, reason);
+    this.activeProcessing.get(conversationId)?.finish();
+    
     // Clear all state
     this.conversationModes.delete(conversationId);
     this.activeProcessing.delete(conversationId);
     this.conversationCycles.delete(conversationId);
     this.recentResponders.delete(conversationId);
     this.conversationStates.delete(conversationId);
+    this.agentDependencies.delete(conversationId);
     
     // Emit reset event to UI
     if (this.io) {
@@ -1387,14 +3308,15 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
    */
   public getConversationStatus(conversationId: string): any {
     const mode = this.conversationModes.get(conversationId);
-    const lock = Array.from(this.activeProcessing.values())
-      .find(lock => lock.conversationId === conversationId);
+    const lock = this.activeProcessing.get(conversationId);
     
     return {
       conversationId,
       hasActiveMode: !!mode,
-      currentMode: mode?.type,
+      currentMode: mode?.type || this.runningStates.get(conversationId)?.workflowMode,
       isLocked: !!lock && (Date.now() - lock.timestamp <= lock.timeout),
+      lockedBy: lock?.holder,
+      queuedMessages: this.messageQueues.get(conversationId)?.length || 0,
       lastActivity: mode?.startTime || lock?.timestamp,
       canReset: !!mode || !!lock
     };
@@ -1405,15 +3327,14 @@ RESPOND WITH ONLY THIS JSON FORMAT (replace the placeholder text with your actua
    */
   public isConversationStuck(conversationId: string): boolean {
     const mode = this.conversationModes.get(conversationId);
-    const lock = Array.from(this.activeProcessing.values())
-      .find(lock => lock.conversationId === conversationId);
+    const lock = this.activeProcessing.get(conversationId);
     
     // Stuck if mode has been running too long
     if (mode && Date.now() - mode.startTime > mode.timeout * 2) {
       return true;
     }
     
-    // Stuck if lock is expired but still present
+    // Stuck if the run holding the lock made no progress within its timeout
     if (lock && Date.now() - lock.timestamp > lock.timeout) {
       return true;
     }
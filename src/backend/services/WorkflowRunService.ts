@@ -0,0 +1,131 @@
+import { PrismaClient } from '@prisma/client';
+import type { SharedWorkflowState } from './WorkflowOrchestrator';
+import { WorkflowRunStatus, WorkflowRunStep, WorkflowRunSummary } from '../../shared/types';
+
+export interface WorkflowRunDetails {
+  run: WorkflowRunSummary;
+  state: SharedWorkflowState;
+  steps: WorkflowRunStep[];
+}
+
+/**
+ * Workflow runs in SQLite: the shared state after every agent turn plus a step per turn,
+ * so runs cut short by a restart can be resumed or abandoned
+ */
+export class WorkflowRunService {
+  constructor(private prisma: PrismaClient) {}
+
+  async start(state: SharedWorkflowState, messageId?: string): Promise<string> {
+    const run = await this.prisma.workflowRun.create({
+      data: {
+        conversationId: state.conversationId,
+        messageId: messageId || null,
+        workflowMode: state.workflowMode || 'unknown',
+        state: JSON.stringify(state),
+      },
+    });
+    return run.id;
+  }
+
+  /**
+   * Save one agent turn and the state it left behind
+   */
+  async recordStep(runId: string, state: SharedWorkflowState, step: Omit<WorkflowRunStep, 'id' | 'runId' | 'createdAt'>): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.workflowRunStep.create({
+        data: {
+          runId,
+          agentId: step.agentId,
+          round: step.round,
+          phase: step.phase,
+          status: step.status,
+          messageId: step.messageId || null,
+          detail: step.detail || null,
+        },
+      }),
+      this.prisma.workflowRun.update({
+        where: { id: runId },
+        data: { state: JSON.stringify(state), error: state.error || null },
+      }),
+    ]);
+  }
+
+  async setStatus(runId: string, status: WorkflowRunStatus, state?: SharedWorkflowState): Promise<void> {
+    await this.prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        status,
+        ...(state && { state: JSON.stringify(state), error: state.error || null }),
+      },
+    });
+  }
+
+  /**
+   * Mark runs still "running" as interrupted; call at startup, when nothing can be running yet
+   */
+  async markInterrupted(): Promise<number> {
+    const { count } = await this.prisma.workflowRun.updateMany({
+      where: { status: 'running' },
+      data: { status: 'interrupted' },
+    });
+    return count;
+  }
+
+  async list(filter: { status?: WorkflowRunStatus; conversationId?: string } = {}): Promise<WorkflowRunSummary[]> {
+    const runs = await this.prisma.workflowRun.findMany({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.conversationId && { conversationId: filter.conversationId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+    return runs.map((run: any) => this.toSummary(run, JSON.parse(run.state)));
+  }
+
+  async get(runId: string): Promise<WorkflowRunDetails | null> {
+    const run = await this.prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: { steps: { orderBy: { createdAt: 'asc' } } },
+    });
+    if (!run) {
+      return null;
+    }
+
+    const state: SharedWorkflowState = JSON.parse(run.state);
+    return {
+      run: this.toSummary(run, state),
+      state,
+      steps: run.steps.map((step: any) => ({
+        id: step.id,
+        runId: step.runId,
+        agentId: step.agentId,
+        round: step.round,
+        phase: step.phase,
+        status: step.status,
+        messageId: step.messageId,
+        detail: step.detail,
+        createdAt: step.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  private toSummary(run: any, state: SharedWorkflowState): WorkflowRunSummary {
+    const unfinished = state.activeAgents.filter(agentId => !state.agentContributions[agentId]);
+
+    return {
+      id: run.id,
+      conversationId: run.conversationId,
+      messageId: run.messageId,
+      workflowMode: run.workflowMode,
+      status: run.status,
+      round: state.collaborationRound,
+      phase: state.template?.phase || state.phase,
+      userRequest: state.userRequest,
+      pendingAgents: [...new Set([...unfinished, ...state.nextAgents])],
+      error: run.error,
+      createdAt: run.createdAt.toISOString(),
+      updatedAt: run.updatedAt.toISOString(),
+    };
+  }
+}
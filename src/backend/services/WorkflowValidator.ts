@@ -358,6 +358,10 @@ export class WorkflowValidator {
   }
 
   // Public API
+  public getDefaultValidation(): WorkflowValidation {
+    return this.defaultValidation;
+  }
+
   public validateWorkflow(config: WorkflowConfig, validation?: WorkflowValidation): ValidationResult[] {
     const rules = validation?.rules || this.defaultValidation.rules;
     const constraints = validation?.constraints || this.defaultValidation.constraints;
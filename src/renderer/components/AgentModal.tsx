@@ -1,12 +1,16 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { X } from 'lucide-react';
 import { theme } from '../utils/theme';
 import { styles } from '../utils/styles';
+import { apiService } from '../utils/api';
+import { LLMProviderType, ModelInfo } from '../../shared/types';
 
 export interface NewAgent {
   name: string;
   role: string;
   description: string;
+  provider: LLMProviderType;
+  endpoint?: string;
   model: string;
   temperature: number;
   maxTokens: number;
@@ -28,9 +32,43 @@ const AgentModal: React.FC<AgentModalProps> = ({
   onAgentChange,
   onCreateAgent
 }) => {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      // Embedding models can't hold a conversation
+      apiService.fetchModels().then(all => setModels(all.filter(model => !model.capabilities.embedding)));
+    }
+  }, [visible]);
+
   if (!visible) return null;
 
-  const canCreate = newAgent.name && newAgent.role;
+  const modelKey = (model: { provider: string; endpoint?: string; model: string }) =>
+    [model.provider, model.endpoint || '', model.model].join('|');
+  const selectedModel = models.find(model => modelKey(model) === modelKey(newAgent));
+  const groupOf = (model: ModelInfo) => model.endpoint ? `${model.provider}:${model.endpoint}` : model.provider;
+  const providerGroups = Array.from(new Set(models.map(groupOf)));
+
+  const handleModelChange = (key: string) => {
+    const model = models.find(candidate => modelKey(candidate) === key);
+    if (model) {
+      onAgentChange({ ...newAgent, provider: model.provider, endpoint: model.endpoint, model: model.model });
+    }
+  };
+
+  const describeCapabilities = (model: ModelInfo): string => {
+    const { contextWindow, toolCalling, jsonMode, vision } = model.capabilities;
+    const label = (name: string, supported?: boolean) => supported === undefined ? `${name} unknown` : `${supported ? '' : 'no '}${name}`;
+    return [
+      contextWindow ? `${Math.round(contextWindow / 1024)}k context` : 'context unknown',
+      label('tools', toolCalling),
+      label('JSON mode', jsonMode),
+      label('vision', vision),
+      ...(model.overridden ? ['overridden'] : [])
+    ].join(' · ');
+  };
+
+  const canCreate = newAgent.name && newAgent.role && selectedModel;
 
   return (
     <div style={{
@@ -126,8 +164,8 @@ const AgentModal: React.FC<AgentModalProps> = ({
           <div>
             <label style={{ color: theme.colors.text, marginBottom: '4px', display: 'block' }}>Model</label>
             <select
-              value={newAgent.model}
-              onChange={(e) => onAgentChange({ ...newAgent, model: e.target.value })}
+              value={selectedModel ? modelKey(selectedModel) : ''}
+              onChange={(e) => handleModelChange(e.target.value)}
               style={{
                 width: '100%',
                 padding: '8px',
@@ -137,13 +175,24 @@ const AgentModal: React.FC<AgentModalProps> = ({
                 color: theme.colors.text
               }}
             >
-              <option value="llama3">Llama 3</option>
-              <option value="gpt-oss:20b">GPT-OSS 20B</option>
-              <option value="mistral">Mistral</option>
-              <option value="llama2">Llama2</option>
-              <option value="codellama">CodeLlama</option>
-              <option value="neural-chat">Neural Chat</option>
+              {!selectedModel && <option value="">Select a model</option>}
+              {providerGroups.map(group => (
+                <optgroup key={group} label={group}>
+                  {models
+                    .filter(model => groupOf(model) === group)
+                    .map(model => (
+                      <option key={modelKey(model)} value={modelKey(model)}>{model.model}</option>
+                    ))}
+                </optgroup>
+              ))}
             </select>
+            <span style={{ color: theme.colors.textMuted, fontSize: '12px' }}>
+              {selectedModel
+                ? describeCapabilities(selectedModel)
+                : models.length === 0
+                  ? 'No models found. Configure a provider in LLM Settings.'
+                  : `${newAgent.model} is not available from any configured provider`}
+            </span>
           </div>
 
           <div>
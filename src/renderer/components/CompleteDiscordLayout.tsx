@@ -14,8 +14,26 @@ import {
 import { useSocketConnection } from '../hooks/useSocketConnection';
 import { useConversationManagement } from '../hooks/useConversationManagement';
 import { useDataLoading } from '../hooks/useDataLoading';
-import { Message, Agent, Conversation } from '../../shared/types';
+import { Message, Agent, Conversation, MessageStreamStart, MessageStreamDelta, MessageStreamEnd, WorkflowApproval, WorkflowRunSummary, WorkflowExecution, OllamaStatus, UsageTotals, LLMQueueStats, TeamDefinition, WorkflowTemplate, QueuePolicy } from '../../shared/types';
+import { apiService } from '../utils/api';
 import AddButton from './AddButton';
+import LLMSettingsModal from './LLMSettingsModal';
+import ToolCallCard from './ToolCallCard';
+import StatusBar from './StatusBar';
+
+const EXECUTION_STATUS_COLORS: Record<WorkflowExecution['status'], string> = {
+  running: '#3ba55c',
+  paused: '#faa61a',
+  completed: '#5865f2',
+  failed: '#ed4245',
+  cancelled: '#4f545c'
+};
+
+const QUEUE_POLICY_LABELS: Record<QueuePolicy, string> = {
+  fifo: 'Wait for the running workflow',
+  'latest-wins': 'Cancel it and answer the latest message',
+  interrupt: 'Add the message to the running workflow'
+};
 
 const CompleteDiscordLayout = () => {
   // Add CSS animations
@@ -35,8 +53,16 @@ const CompleteDiscordLayout = () => {
 
   const [activeChannel, setActiveChannel] = useState('general');
   const [showWorkflowPanel, setShowWorkflowPanel] = useState(true);
-  const [workflowStatus, setWorkflowStatus] = useState<any>(null);
+  const [execution, setExecution] = useState<WorkflowExecution | null>(null);
   const [typingAgents, setTypingAgents] = useState<{ [key: string]: boolean }>({});
+  const [showLLMSettings, setShowLLMSettings] = useState(false);
+  const [pendingApprovals, setPendingApprovals] = useState<WorkflowApproval[]>([]);
+  const [interruptedRuns, setInterruptedRuns] = useState<WorkflowRunSummary[]>([]);
+  const [ollamaStatus, setOllamaStatus] = useState<OllamaStatus>({ available: false, models: [] });
+  const [usage, setUsage] = useState<UsageTotals | null>(null);
+  const [queues, setQueues] = useState<LLMQueueStats[]>([]);
+  const [teams, setTeams] = useState<TeamDefinition[]>([]);
+  const [workflowTemplates, setWorkflowTemplates] = useState<WorkflowTemplate[]>([]);
   
   // Real data from backend
   const [agents, setAgents] = useState<Agent[]>([]);
@@ -55,7 +81,7 @@ const CompleteDiscordLayout = () => {
       setIsLoading(true);
       try {
         await loadInitialData(
-          () => {}, // setOllamaStatus
+          setOllamaStatus,
           setAgents,
           setConversations,
           () => {}, // setActiveConversation
@@ -73,6 +99,24 @@ const CompleteDiscordLayout = () => {
     loadData();
   }, [loadInitialData]);
 
+  // Teams and published workflow templates a conversation can be assigned
+  useEffect(() => {
+    apiService.fetchTeams().then(setTeams);
+    apiService.fetchWorkflowTemplates().then(setWorkflowTemplates);
+  }, []);
+
+  // Open LLM settings from the Electron Tools menu (absent when running in a browser)
+  useEffect(() => {
+    const electronAPI = (window as any).electronAPI;
+    if (!electronAPI?.onMenuAction) return;
+
+    return electronAPI.onMenuAction((action: string) => {
+      if (action === 'menu-llm-settings') {
+        setShowLLMSettings(true);
+      }
+    });
+  }, []);
+
   // Load messages for current channel
   useEffect(() => {
     const loadMessages = async () => {
@@ -149,13 +193,16 @@ const CompleteDiscordLayout = () => {
           const conversationId = getConversationId(activeChannel);
           setMessages((prev: Message[]) => {
             // Check if message already exists
-            const exists = prev.some(m => m.id === message.id);
-            if (exists) {
+            const existing = prev.find(m => m.id === message.id);
+            if (existing && !existing.metadata?.streaming) {
               console.log('⚠️ Message already exists, skipping:', message.id);
               return prev;
             }
             console.log('✅ Adding new message to conversation:', message.id);
-            const newMessages = [...prev, message];
+            // The final message replaces the text streamed under the same id
+            const newMessages = existing
+              ? prev.map(m => m.id === message.id ? message : m)
+              : [...prev, message];
             
             // Update the conversation cache
             setMessagesByConversation(prevCache => ({
@@ -179,10 +226,186 @@ const CompleteDiscordLayout = () => {
     }
   }, [socket, activeChannel]);
 
+  // Show agent replies as they are generated; 'new-message' replaces them when complete
+  useEffect(() => {
+    if (socket) {
+      const updateStreamingMessage = (messageId: string, update: (message?: Message) => Message | null) => {
+        setMessages((prev: Message[]) => {
+          const existing = prev.find(m => m.id === messageId);
+          if (existing && !existing.metadata?.streaming) return prev;
+
+          const updated = update(existing);
+          if (!updated) return prev.filter(m => m.id !== messageId);
+          return existing
+            ? prev.map(m => m.id === messageId ? updated : m)
+            : [...prev, updated];
+        });
+      };
+
+      const handleStreamStart = (data: MessageStreamStart) => {
+        if (data.conversationId !== getConversationId(activeChannel)) return;
+        updateStreamingMessage(data.messageId, existing => existing || {
+          id: data.messageId,
+          conversationId: data.conversationId,
+          senderId: data.agentId,
+          content: '',
+          type: 'text',
+          timestamp: data.timestamp,
+          metadata: { streaming: true },
+          agent: data.agent
+        });
+      };
+
+      const handleStreamDelta = (data: MessageStreamDelta) => {
+        if (data.conversationId !== getConversationId(activeChannel)) return;
+        updateStreamingMessage(data.messageId, existing => existing ? { ...existing, content: data.content } : null);
+      };
+
+      const handleStreamEnd = (data: MessageStreamEnd) => {
+        if (data.conversationId !== getConversationId(activeChannel)) return;
+        // A completed reply arrives as 'new-message'; failed or cancelled ones leave nothing behind
+        if (data.status !== 'complete') {
+          updateStreamingMessage(data.messageId, () => null);
+        }
+      };
+
+      socket.on('message-stream-start', handleStreamStart);
+      socket.on('message-stream-delta', handleStreamDelta);
+      socket.on('message-stream-end', handleStreamEnd);
+
+      return () => {
+        socket.off('message-stream-start', handleStreamStart);
+        socket.off('message-stream-delta', handleStreamDelta);
+        socket.off('message-stream-end', handleStreamEnd);
+      };
+    }
+  }, [socket, activeChannel]);
+
+  // Listen for cancelled workflows
+  useEffect(() => {
+    if (socket) {
+      const handleWorkflowCancelled = (data: any) => {
+        if (data.conversationId !== getConversationId(activeChannel)) return;
+        console.log(`🛑 Workflow cancelled: ${data.partialMessages?.length || 0} messages kept, dropped ${data.droppedAgents?.join(', ') || 'none'}`);
+        setTypingAgents({});
+      };
+
+      socket.on('workflow-cancelled', handleWorkflowCancelled);
+
+      return () => {
+        socket.off('workflow-cancelled', handleWorkflowCancelled);
+      };
+    }
+  }, [socket, activeChannel]);
+
+  // Token usage and cost of the active conversation, updated after every LLM call
+  useEffect(() => {
+    if (socket) {
+      const conversationId = getConversationId(activeChannel);
+      apiService.fetchUsageTotals({ conversationId }).then(setUsage);
+
+      const handleUsageUpdated = (data: { conversationId: string; totals: UsageTotals }) => {
+        if (data.conversationId !== conversationId) return;
+        setUsage(data.totals);
+      };
+
+      socket.on('usage-updated', handleUsageUpdated);
+
+      return () => {
+        socket.off('usage-updated', handleUsageUpdated);
+      };
+    }
+  }, [socket, activeChannel]);
+
+  // LLM request queues per provider, shared by all conversations
+  useEffect(() => {
+    if (socket) {
+      apiService.fetchQueueStats().then(setQueues);
+
+      socket.on('llm-queue-updated', setQueues);
+
+      return () => {
+        socket.off('llm-queue-updated', setQueues);
+      };
+    }
+  }, [socket]);
+
+  // Progress of the active conversation's latest workflow run
+  useEffect(() => {
+    if (socket) {
+      const conversationId = getConversationId(activeChannel);
+      apiService.fetchWorkflowExecutions({ conversationId, limit: 1 })
+        .then(executions => setExecution(executions[0] || null));
+
+      const handleExecutionUpdated = (updated: WorkflowExecution) => {
+        if (updated.conversationId !== conversationId) return;
+        setExecution(updated);
+      };
+
+      socket.on('execution-updated', handleExecutionUpdated);
+
+      return () => {
+        socket.off('execution-updated', handleExecutionUpdated);
+      };
+    }
+  }, [socket, activeChannel]);
+
+  // Approval requests the active conversation's workflow is waiting on
+  useEffect(() => {
+    if (socket) {
+      const conversationId = getConversationId(activeChannel);
+      apiService.fetchApprovals(conversationId, 'pending').then(setPendingApprovals);
+
+      const handleApprovalRequested = (approval: WorkflowApproval) => {
+        if (approval.conversationId !== conversationId) return;
+        setPendingApprovals(prev => [...prev.filter(a => a.id !== approval.id), approval]);
+      };
+      const handleApprovalDecided = (approval: WorkflowApproval) => {
+        setPendingApprovals(prev => prev.filter(a => a.id !== approval.id));
+      };
+
+      socket.on('approval-requested', handleApprovalRequested);
+      socket.on('approval-decided', handleApprovalDecided);
+
+      return () => {
+        socket.off('approval-requested', handleApprovalRequested);
+        socket.off('approval-decided', handleApprovalDecided);
+      };
+    }
+  }, [socket, activeChannel]);
+
+  const handleApprovalDecision = async (approvalId: string, approved: boolean, comment?: string) => {
+    try {
+      await apiService.decideApproval(approvalId, approved, comment);
+    } catch (error) {
+      // Already decided, timed out or cancelled; the list catches up from the socket events
+      setPendingApprovals(prev => prev.filter(a => a.id !== approvalId));
+    }
+  };
+
+  // Runs in the active conversation that a restart cut short
+  useEffect(() => {
+    apiService.fetchWorkflowRuns({ status: 'interrupted', conversationId: getConversationId(activeChannel) })
+      .then(setInterruptedRuns);
+  }, [activeChannel]);
+
+  const handleInterruptedRun = async (runId: string, action: 'resume' | 'abandon') => {
+    try {
+      if (action === 'resume') {
+        await apiService.resumeWorkflowRun(runId);
+      } else {
+        await apiService.abandonWorkflowRun(runId);
+      }
+    } catch (error) {
+      // Someone else resumed or abandoned it first; either way it no longer needs a decision
+    }
+    setInterruptedRuns(prev => prev.filter(run => run.id !== runId));
+  };
+
   // Channel management
   const handleChannelChange = (channelId: string) => {
     setActiveChannel(channelId);
-    setWorkflowStatus(null);
+    setExecution(null);
     setTypingAgents({});
     setMessages([]); // Clear messages when switching channels
   };
@@ -328,13 +551,31 @@ const CompleteDiscordLayout = () => {
   // Workflow controls
   const handleResetWorkflow = (conversationId: string) => {
     console.log(`Resetting workflow for ${conversationId}`);
-    setWorkflowStatus(null);
+    setExecution(null);
     setTypingAgents({});
   };
 
   const handlePauseWorkflow = (conversationId: string) => {
-    console.log(`Pausing workflow for ${conversationId}`);
-    setWorkflowStatus((prev: any) => prev ? { ...prev, hasActiveMode: false } : null);
+    console.log(`Cancelling workflow for ${conversationId}`);
+    // Abort the in-flight agent call on the backend; the UI updates on 'workflow-cancelled'
+    socket?.emit('cancel-workflow', { conversationId });
+  };
+
+  // Save one of the active conversation's workflow settings and keep the local copy in step
+  const saveConversationSetting = async (changes: Partial<Conversation>, save: (conversationId: string) => Promise<void>) => {
+    if (!activeConversation) return;
+    try {
+      await save(activeConversation.id);
+      setConversations(prev => prev.map(c => c.id === activeConversation.id ? { ...c, ...changes } : c));
+    } catch (error) {
+      // Already logged by apiService; the select keeps showing the saved value
+    }
+  };
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
   };
 
   // Format timestamp for display
@@ -355,6 +596,7 @@ const CompleteDiscordLayout = () => {
   };
 
   const isDirectMessage = activeChannel.startsWith('dm-');
+  const activeConversation = conversations.find(c => c.id === getConversationId(activeChannel));
 
   return (
     <div style={{
@@ -710,7 +952,9 @@ const CompleteDiscordLayout = () => {
             >
               <Activity size={16} />
             </button>
-            <button style={{
+            <button
+            onClick={() => setShowLLMSettings(true)}
+            style={{
               padding: '4px',
               borderRadius: '4px',
               border: 'none',
@@ -813,18 +1057,21 @@ const CompleteDiscordLayout = () => {
                     marginTop: '2px',
                     fontSize: '18px'
                   }}>
-                    {message.agent?.avatar || '👤'}
+                    {message.agent?.avatar || message.sender?.avatar || '👤'}
                   </div>
                   <div style={{ flex: 1 }}>
                     <div style={{ display: 'flex', alignItems: 'baseline', gap: '8px', marginBottom: '4px' }}>
                       <span style={{ fontWeight: '600', color: 'white' }}>
-                        {message.agent?.name || message.senderId}
+                        {message.agent?.name || message.sender?.name || message.senderId}
                       </span>
                       <span style={{ fontSize: '12px', color: '#96989d' }}>
                         {formatMessageTime(message.timestamp)}
                       </span>
                     </div>
-                    <div style={{ color: '#dcddde' }}>{message.content}</div>
+                    <div style={{ color: '#dcddde' }}>
+                      {message.content}
+                      {message.metadata?.streaming && <span style={{ color: '#96989d' }}>▍</span>}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -867,6 +1114,70 @@ const CompleteDiscordLayout = () => {
           )}
         </div>
 
+        {/* Interrupted Runs */}
+        {interruptedRuns.map(run => (
+          <div
+            key={run.id}
+            style={{
+              margin: '0 16px 8px',
+              padding: '10px 12px',
+              backgroundColor: '#2f3136',
+              borderLeft: '4px solid #faa61a',
+              borderRadius: '4px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '12px'
+            }}
+          >
+            <div style={{ flex: 1, color: '#dcddde', fontSize: '14px' }}>
+              <div style={{ fontWeight: 600 }}>
+                ⏸️ A {run.workflowMode} workflow was interrupted in round {run.round} ({run.phase})
+              </div>
+              <div style={{ color: '#b9bbbe', fontSize: '12px', marginTop: '2px' }}>
+                "{run.userRequest.length > 80 ? `${run.userRequest.substring(0, 80)}…` : run.userRequest}"
+                {run.pendingAgents.length > 0 && ` · waiting on ${run.pendingAgents.map(id => agents.find(a => a.id === id)?.name || id).join(', ')}`}
+              </div>
+            </div>
+            <button
+              onClick={() => handleInterruptedRun(run.id, 'resume')}
+              style={{ padding: '6px 12px', backgroundColor: '#5865f2', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+            >
+              Resume
+            </button>
+            <button
+              onClick={() => handleInterruptedRun(run.id, 'abandon')}
+              style={{ padding: '6px 12px', backgroundColor: 'transparent', color: '#b9bbbe', border: '1px solid #4f545c', borderRadius: '4px', cursor: 'pointer' }}
+            >
+              Abandon
+            </button>
+          </div>
+        ))}
+
+        {/* Pending Approvals */}
+        {pendingApprovals.length > 0 && (
+          <div style={{ padding: '0 16px', backgroundColor: '#36393f' }}>
+            {pendingApprovals.map(approval => (
+              <ToolCallCard
+                key={approval.id}
+                toolCall={{
+                  id: approval.id,
+                  name: approval.title,
+                  description: `Waiting for approval until ${formatMessageTime(approval.expiresAt)}`,
+                  status: 'requires_approval',
+                  requiresApproval: true,
+                  approvalReason: approval.gate === 'sensitive-tool'
+                    ? `Arguments: ${JSON.stringify(approval.details?.arguments ?? {})}`
+                    : approval.gate === 'after-phase'
+                      ? `The ${approval.target} phase is done and needs approval before the workflow goes on.`
+                      : `${agents.find(a => a.id === approval.target)?.name || approval.target} runs only once approved.`
+                }}
+                onApprove={(id, comment) => handleApprovalDecision(id, true, comment)}
+                onReject={(id, comment) => handleApprovalDecision(id, false, comment)}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Message Input */}
         <div style={{ padding: '16px', backgroundColor: '#36393f' }}>
           <div style={{
@@ -941,6 +1252,15 @@ const CompleteDiscordLayout = () => {
             )}
           </div>
         </div>
+
+        <StatusBar
+          ollamaStatus={ollamaStatus}
+          activeAgent={isDirectMessage ? activeChannel.replace('dm-', '') : null}
+          agents={agents}
+          messages={messages}
+          usage={usage}
+          queues={queues}
+        />
       </div>
 
       {/* Workflow Status Panel */}
@@ -953,7 +1273,7 @@ const CompleteDiscordLayout = () => {
         }}>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
             {/* Workflow Status */}
-            {workflowStatus ? (
+            {execution ? (
               <div style={{
                 backgroundColor: '#292b2f',
                 border: '1px solid #40444b',
@@ -966,27 +1286,72 @@ const CompleteDiscordLayout = () => {
                     padding: '4px 8px',
                     borderRadius: '4px',
                     fontSize: '12px',
-                    backgroundColor: workflowStatus.hasActiveMode ? '#3ba55c' : '#4f545c',
-                    color: workflowStatus.hasActiveMode ? 'white' : '#96989d'
+                    backgroundColor: EXECUTION_STATUS_COLORS[execution.status],
+                    color: 'white'
                   }}>
-                    {workflowStatus.currentMode}
+                    {execution.status}
                   </div>
                 </div>
                 
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '14px' }}>
                   <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                    <span style={{ color: '#96989d' }}>Active Agents:</span>
-                    <span style={{ color: 'white' }}>{workflowStatus.activeAgents?.length || 0}</span>
+                    <span style={{ color: '#96989d' }}>Workflow:</span>
+                    <span style={{ color: 'white' }}>{execution.workflowId}</span>
+                  </div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span style={{ color: '#96989d' }}>Phase:</span>
+                    <span style={{ color: 'white' }}>{execution.currentPhase}</span>
+                  </div>
+                  {execution.currentAgent && (
+                    <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                      <span style={{ color: '#96989d' }}>Working:</span>
+                      <span style={{ color: 'white' }}>{agents.find(a => a.id === execution.currentAgent)?.name || execution.currentAgent}</span>
+                    </div>
+                  )}
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span style={{ color: '#96989d' }}>Iterations:</span>
+                    <span style={{ color: 'white' }}>
+                      {execution.iterations}
+                      {execution.metrics.errorCount > 0 && ` (${execution.metrics.errorCount} failed)`}
+                    </span>
                   </div>
                   <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                    <span style={{ color: '#96989d' }}>Progress:</span>
-                    <span style={{ color: 'white' }}>{workflowStatus.completedRounds}/{workflowStatus.maxRounds}</span>
+                    <span style={{ color: '#96989d' }}>Duration:</span>
+                    <span style={{ color: 'white' }}>
+                      {formatDuration(execution.duration ?? Date.now() - Date.parse(execution.startTime))}
+                    </span>
                   </div>
                 </div>
+
+                {Object.keys(execution.metrics.agentExecutionTimes).length > 0 && (
+                  <div style={{ marginTop: '12px', fontSize: '12px' }}>
+                    <div style={{ color: '#96989d', marginBottom: '4px' }}>Time per agent</div>
+                    {Object.entries(execution.metrics.agentExecutionTimes).map(([agentId, ms]) => (
+                      <div key={agentId} style={{ display: 'flex', justifyContent: 'space-between', color: '#dcddde' }}>
+                        <span>{agents.find(a => a.id === agentId)?.name || agentId}</span>
+                        <span>{formatDuration(ms)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {execution.error && (
+                  <div style={{ marginTop: '12px', fontSize: '12px', color: '#ed4245' }}>{execution.error}</div>
+                )}
+
+                {execution.logs.length > 0 && (
+                  <div style={{ marginTop: '12px', fontSize: '12px', maxHeight: '120px', overflowY: 'auto' }}>
+                    {execution.logs.slice(-5).map((log, index) => (
+                      <div key={`${log.timestamp}-${index}`} style={{ color: log.level === 'error' ? '#ed4245' : log.level === 'warn' ? '#faa61a' : '#96989d' }}>
+                        {new Date(log.timestamp).toLocaleTimeString()} {log.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 
                 <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
                   <button
-                    onClick={() => handleResetWorkflow(workflowStatus.conversationId)}
+                    onClick={() => handleResetWorkflow(execution.conversationId)}
                     style={{
                       flex: 1,
                       backgroundColor: '#ed4245',
@@ -1010,7 +1375,8 @@ const CompleteDiscordLayout = () => {
                     Reset
                   </button>
                   <button
-                    onClick={() => handlePauseWorkflow(workflowStatus.conversationId)}
+                    onClick={() => handlePauseWorkflow(execution.conversationId)}
+                    disabled={execution.status !== 'running' && execution.status !== 'paused'}
                     style={{
                       flex: 1,
                       backgroundColor: '#faa61a',
@@ -1019,7 +1385,8 @@ const CompleteDiscordLayout = () => {
                       borderRadius: '4px',
                       fontSize: '12px',
                       border: 'none',
-                      cursor: 'pointer',
+                      cursor: execution.status === 'running' || execution.status === 'paused' ? 'pointer' : 'not-allowed',
+                      opacity: execution.status === 'running' || execution.status === 'paused' ? 1 : 0.5,
                       transition: 'background-color 0.2s'
                     }}
                     onMouseEnter={(e) => {
@@ -1047,6 +1414,68 @@ const CompleteDiscordLayout = () => {
               </div>
             )}
 
+            {/* Conversation Settings */}
+            {activeConversation && (
+              <div style={{
+                backgroundColor: '#292b2f',
+                border: '1px solid #40444b',
+                borderRadius: '8px',
+                padding: '16px'
+              }}>
+                <h3 style={{ fontWeight: '600', color: 'white', marginBottom: '12px' }}>Conversation Settings</h3>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '12px' }}>
+                  <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', color: '#96989d' }}>
+                    Team
+                    <select
+                      value={activeConversation.teamId || ''}
+                      onChange={(e) => {
+                        const teamId = e.target.value || null;
+                        saveConversationSetting({ teamId }, id => apiService.setConversationTeam(id, teamId));
+                      }}
+                      style={{ backgroundColor: '#40444b', color: '#dcddde', border: 'none', borderRadius: '4px', padding: '6px 8px', fontSize: '12px' }}
+                    >
+                      <option value="">Default team</option>
+                      {teams.map(team => (
+                        <option key={team.id} value={team.id}>{team.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', color: '#96989d' }}>
+                    Workflow for messages without mentions
+                    <select
+                      value={activeConversation.workflowTemplateId || ''}
+                      onChange={(e) => {
+                        const workflowTemplateId = e.target.value || null;
+                        saveConversationSetting({ workflowTemplateId }, id => apiService.setConversationWorkflowTemplate(id, workflowTemplateId));
+                      }}
+                      style={{ backgroundColor: '#40444b', color: '#dcddde', border: 'none', borderRadius: '4px', padding: '6px 8px', fontSize: '12px' }}
+                    >
+                      <option value="">Team workflow</option>
+                      {workflowTemplates.map(template => (
+                        <option key={template.id} value={template.id}>{template.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', color: '#96989d' }}>
+                    Messages sent while a workflow runs
+                    <select
+                      value={activeConversation.queuePolicy || ''}
+                      onChange={(e) => {
+                        const queuePolicy = (e.target.value || null) as QueuePolicy | null;
+                        saveConversationSetting({ queuePolicy }, id => apiService.setConversationQueuePolicy(id, queuePolicy));
+                      }}
+                      style={{ backgroundColor: '#40444b', color: '#dcddde', border: 'none', borderRadius: '4px', padding: '6px 8px', fontSize: '12px' }}
+                    >
+                      <option value="">Server default</option>
+                      {(Object.keys(QUEUE_POLICY_LABELS) as QueuePolicy[]).map(policy => (
+                        <option key={policy} value={policy}>{QUEUE_POLICY_LABELS[policy]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+            )}
+
             {/* Team Creation */}
             <div style={{
               backgroundColor: '#292b2f',
@@ -1209,6 +1638,8 @@ const CompleteDiscordLayout = () => {
           </div>
         </div>
       )}
+
+      <LLMSettingsModal visible={showLLMSettings} onClose={() => setShowLLMSettings(false)} />
     </div>
   );
 };
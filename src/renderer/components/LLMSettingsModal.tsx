@@ -0,0 +1,339 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { theme } from '../utils/theme';
+import { styles } from '../utils/styles';
+import { apiService } from '../utils/api';
+import { LLMProviderType, ProviderSetting, ProviderTestResult } from '../../shared/types';
+
+export interface LLMSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface ProviderForm {
+  type: LLMProviderType;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  models: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: ProviderForm = {
+  type: 'ollama',
+  name: '',
+  baseUrl: '',
+  apiKey: '',
+  models: '',
+  enabled: true
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  background: theme.colors.backgroundTertiary,
+  border: `1px solid ${theme.colors.border}`,
+  borderRadius: '4px',
+  color: theme.colors.text
+};
+
+const labelStyle: React.CSSProperties = {
+  color: theme.colors.text,
+  marginBottom: '4px',
+  display: 'block'
+};
+
+const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ visible, onClose }) => {
+  const [providers, setProviders] = useState<ProviderSetting[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM);
+  const [testResults, setTestResults] = useState<{ [id: string]: ProviderTestResult | 'testing' }>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadProviders = async () => {
+    setProviders(await apiService.fetchProviders());
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadProviders();
+    }
+  }, [visible]);
+
+  if (!visible) return null;
+
+  const startEdit = (provider: ProviderSetting) => {
+    setEditingId(provider.id);
+    setError(null);
+    setForm({
+      type: provider.type,
+      name: provider.name,
+      baseUrl: provider.baseUrl || '',
+      apiKey: '',
+      models: provider.models.join(', '),
+      enabled: provider.enabled
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await apiService.saveProvider({
+        type: form.type,
+        name: form.type === 'openai-compatible' ? form.name : undefined,
+        baseUrl: form.baseUrl,
+        // A blank key field keeps the stored key when editing
+        apiKey: form.apiKey || undefined,
+        models: form.models.split(',').map(model => model.trim()).filter(Boolean),
+        enabled: form.enabled
+      }, editingId || undefined);
+      resetForm();
+      await loadProviders();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (provider: ProviderSetting) => {
+    try {
+      await apiService.deleteProvider(provider.id);
+      if (editingId === provider.id) resetForm();
+      await loadProviders();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleTest = async (provider: ProviderSetting) => {
+    setTestResults(prev => ({ ...prev, [provider.id]: 'testing' }));
+    const result = await apiService.testProvider(provider.id);
+    setTestResults(prev => ({ ...prev, [provider.id]: result }));
+  };
+
+  const renderTestResult = (id: string) => {
+    const result = testResults[id];
+    if (!result) return null;
+    if (result === 'testing') {
+      return <div style={{ color: theme.colors.textMuted, fontSize: '12px' }}>Testing connection...</div>;
+    }
+    if (!result.connected) {
+      return (
+        <div style={{ color: theme.colors.error, fontSize: '12px' }}>
+          Not connected{result.error ? `: ${result.error}` : ''}
+        </div>
+      );
+    }
+    return (
+      <div style={{ color: theme.colors.success, fontSize: '12px' }}>
+        Connected · {result.models.length > 0 ? result.models.join(', ') : 'no models listed'}
+      </div>
+    );
+  };
+
+  const canSave = !saving && (form.type !== 'openai-compatible' || (form.name && form.baseUrl));
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        background: theme.colors.backgroundSecondary,
+        borderRadius: '8px',
+        padding: '24px',
+        width: '560px',
+        maxHeight: '80vh',
+        overflowY: 'auto'
+      }}>
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '20px'
+        }}>
+          <h2 style={{ color: theme.colors.textBright, margin: 0 }}>LLM Settings</h2>
+          <X
+            size={20}
+            style={{ cursor: 'pointer', color: theme.colors.text }}
+            onClick={onClose}
+          />
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '24px' }}>
+          {providers.length === 0 && (
+            <div style={{ color: theme.colors.textMuted, fontSize: '14px' }}>
+              No stored providers. Environment variables are used until one is added.
+            </div>
+          )}
+          {providers.map(provider => (
+            <div key={provider.id} style={{
+              padding: '12px',
+              background: theme.colors.backgroundTertiary,
+              borderRadius: '4px',
+              opacity: provider.enabled ? 1 : 0.6
+            }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <div>
+                  <div style={{ color: theme.colors.textBright, fontWeight: 500 }}>
+                    {provider.name}
+                    {provider.type === 'openai-compatible' && (
+                      <span style={{ color: theme.colors.textMuted, fontSize: '12px' }}> (OpenAI-compatible)</span>
+                    )}
+                  </div>
+                  <div style={{ color: theme.colors.textMuted, fontSize: '12px' }}>
+                    {provider.baseUrl || 'default endpoint'}
+                    {provider.hasApiKey && ` · key ${provider.apiKeyHint}`}
+                    {!provider.enabled && ' · disabled'}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <button onClick={() => handleTest(provider)} style={{ ...styles.addAgentButton, width: 'auto', padding: '4px 10px' }}>
+                    Test
+                  </button>
+                  <button
+                    onClick={() => startEdit(provider)}
+                    style={{ ...styles.addAgentButton, width: 'auto', padding: '4px 10px', background: theme.colors.backgroundSecondary, color: theme.colors.text }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleRemove(provider)}
+                    style={{ ...styles.addAgentButton, width: 'auto', padding: '4px 10px', background: theme.colors.error }}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+              {renderTestResult(provider.id)}
+            </div>
+          ))}
+        </div>
+
+        <h3 style={{ color: theme.colors.textBright, margin: '0 0 12px 0', fontSize: '16px' }}>
+          {editingId ? 'Edit Provider' : 'Add Provider'}
+        </h3>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <div>
+            <label style={labelStyle}>Type</label>
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as LLMProviderType })}
+              style={inputStyle}
+            >
+              <option value="ollama">Ollama</option>
+              <option value="openai">OpenAI</option>
+              <option value="anthropic">Anthropic</option>
+              <option value="openai-compatible">OpenAI-compatible</option>
+            </select>
+          </div>
+
+          {form.type === 'openai-compatible' && (
+            <div>
+              <label style={labelStyle}>Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                style={inputStyle}
+                placeholder="e.g., lmstudio, vllm"
+              />
+            </div>
+          )}
+
+          <div>
+            <label style={labelStyle}>Base URL</label>
+            <input
+              type="text"
+              value={form.baseUrl}
+              onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+              style={inputStyle}
+              placeholder={form.type === 'ollama' ? 'http://localhost:11434' : 'Leave blank for the default endpoint'}
+            />
+          </div>
+
+          {form.type !== 'ollama' && (
+            <div>
+              <label style={labelStyle}>API Key</label>
+              <input
+                type="password"
+                value={form.apiKey}
+                onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+                style={inputStyle}
+                placeholder={editingId ? 'Leave blank to keep the stored key' : ''}
+                autoComplete="off"
+              />
+            </div>
+          )}
+
+          <div>
+            <label style={labelStyle}>Models</label>
+            <input
+              type="text"
+              value={form.models}
+              onChange={(e) => setForm({ ...form, models: e.target.value })}
+              style={inputStyle}
+              placeholder="Comma-separated; leave blank to list them from the provider"
+            />
+          </div>
+
+          <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+            />
+            Enabled
+          </label>
+
+          {error && <div style={{ color: theme.colors.error, fontSize: '14px' }}>{error}</div>}
+
+          <div style={{ display: 'flex', gap: '12px', marginTop: '8px' }}>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              style={{
+                ...styles.addAgentButton,
+                flex: 1,
+                opacity: canSave ? 1 : 0.5
+              }}
+            >
+              {editingId ? 'Save Changes' : 'Add Provider'}
+            </button>
+            <button
+              onClick={editingId ? resetForm : onClose}
+              style={{
+                ...styles.addAgentButton,
+                flex: 1,
+                background: theme.colors.backgroundTertiary,
+                color: theme.colors.text
+              }}
+            >
+              {editingId ? 'Cancel Edit' : 'Close'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LLMSettingsModal;
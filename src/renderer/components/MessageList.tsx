@@ -36,6 +36,8 @@ const MessageList: React.FC<MessageListProps> = ({
   messagesEndRef
 }) => {
   const validMessages = messages.filter(m => m.conversationId === activeConversation);
+  // Agents whose reply is already streaming in don't need a typing indicator too
+  const streamingAgents = new Set(validMessages.filter(m => m.metadata?.streaming).map(m => m.senderId));
 
   const renderEmptyState = () => {
     if (agents.length === 0) {
@@ -122,7 +124,7 @@ const MessageList: React.FC<MessageListProps> = ({
           
           {/* Typing indicators */}
           {Object.entries(typingAgents).map(([agentId, isTyping]) => {
-            if (!isTyping) return null;
+            if (!isTyping || streamingAgents.has(agentId)) return null;
             
             const agent = agents.find(a => a.id === agentId);
             if (!agent) return null;
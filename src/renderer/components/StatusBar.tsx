@@ -1,6 +1,6 @@
 import React from 'react';
 import { Check, AlertCircle } from 'lucide-react';
-import { Agent, OllamaStatus } from '../../shared/types';
+import { Agent, OllamaStatus, UsageTotals, LLMQueueStats } from '../../shared/types';
 import { theme } from '../utils/theme';
 import { styles } from '../utils/styles';
 
@@ -9,13 +9,17 @@ export interface StatusBarProps {
   activeAgent: string | null;
   agents: Agent[];
   messages: any[];
+  usage?: UsageTotals | null;
+  queues?: LLMQueueStats[];
 }
 
 const StatusBar: React.FC<StatusBarProps> = ({
   ollamaStatus,
   activeAgent,
   agents,
-  messages
+  messages,
+  usage,
+  queues = []
 }) => {
   return (
     <div style={styles.statusBar}>
@@ -38,6 +42,23 @@ const StatusBar: React.FC<StatusBarProps> = ({
       <div style={styles.statusItem}>
         <span>{messages.length} messages</span>
       </div>
+      {usage && (
+        <div style={styles.statusItem} title={`${usage.promptTokens.toLocaleString()} prompt / ${usage.completionTokens.toLocaleString()} completion tokens over ${usage.calls} calls`}>
+          <span>{usage.totalTokens.toLocaleString()} tokens · ${usage.estimatedCost.toFixed(4)}</span>
+        </div>
+      )}
+      {queues.filter(queue => queue.active > 0 || queue.queued > 0).map(queue => (
+        <div
+          key={queue.provider}
+          style={styles.statusItem}
+          title={`Limit ${queue.limits.concurrency} at a time${queue.limits.requestsPerMinute ? `, ${queue.limits.requestsPerMinute}/min` : ''} · max wait ${(queue.maxWaitMs / 1000).toFixed(1)}s`}
+        >
+          <span>
+            {queue.provider}: {queue.active}/{queue.limits.concurrency} running
+            {queue.queued > 0 && ` · ${queue.queued} queued · ~${(queue.averageWaitMs / 1000).toFixed(1)}s wait`}
+          </span>
+        </div>
+      ))}
     </div>
   );
 };
@@ -15,8 +15,8 @@ export interface ToolCall {
 
 export interface ToolCallCardProps {
   toolCall: ToolCall;
-  onApprove?: (toolCallId: string) => void;
-  onReject?: (toolCallId: string) => void;
+  onApprove?: (toolCallId: string, comment?: string) => void;
+  onReject?: (toolCallId: string, comment?: string) => void;
   onRetry?: (toolCallId: string) => void;
 }
 
@@ -26,7 +26,9 @@ const ToolCallCard: React.FC<ToolCallCardProps> = ({
   onReject,
   onRetry
 }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
+  // Calls waiting for approval open with their buttons showing
+  const [isExpanded, setIsExpanded] = useState(toolCall.status === 'requires_approval');
+  const [comment, setComment] = useState('');
 
   const getStatusIcon = () => {
     switch (toolCall.status) {
@@ -227,12 +229,32 @@ const ToolCallCard: React.FC<ToolCallCardProps> = ({
             </div>
           )}
 
+          {toolCall.status === 'requires_approval' && (onApprove || onReject) && (
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Comment (optional)"
+              rows={2}
+              style={{
+                width: '100%',
+                marginBottom: '8px',
+                padding: '8px',
+                backgroundColor: theme.colors.backgroundTertiary,
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: '4px',
+                color: theme.colors.text,
+                fontSize: '12px',
+                resize: 'vertical'
+              }}
+            />
+          )}
+
           {/* Action Buttons */}
           <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
             {toolCall.status === 'requires_approval' && (
               <>
                 <button
-                  onClick={() => onApprove?.(toolCall.id)}
+                  onClick={() => onApprove?.(toolCall.id, comment.trim() || undefined)}
                   style={{
                     padding: '6px 12px',
                     backgroundColor: theme.colors.success,
@@ -247,7 +269,7 @@ const ToolCallCard: React.FC<ToolCallCardProps> = ({
                   Approve
                 </button>
                 <button
-                  onClick={() => onReject?.(toolCall.id)}
+                  onClick={() => onReject?.(toolCall.id, comment.trim() || undefined)}
                   style={{
                     padding: '6px 12px',
                     backgroundColor: theme.colors.error,
@@ -1,11 +1,13 @@
 import { useState, useCallback, Dispatch, SetStateAction } from 'react';
-import { Agent } from '../../shared/types';
+import { Agent, LLMProviderType } from '../../shared/types';
 import { apiService } from '../utils/api';
 
 interface NewAgent {
   name: string;
   role: string;
   description: string;
+  provider: LLMProviderType;
+  endpoint?: string;
   model: string;
   temperature: number;
   maxTokens: number;
@@ -17,6 +19,7 @@ export const useAgentManagement = () => {
     name: '',
     role: '',
     description: '',
+    provider: 'ollama',
     model: 'llama3',
     temperature: 0.7,
     maxTokens: 4000,
@@ -34,7 +37,8 @@ export const useAgentManagement = () => {
         role: newAgent.role,
         description: newAgent.description,
         config: {
-          llmProvider: 'ollama',
+          llmProvider: newAgent.provider,
+          ...(newAgent.endpoint && { endpoint: newAgent.endpoint }),
           model: newAgent.model,
           temperature: newAgent.temperature,
           maxTokens: newAgent.maxTokens,
@@ -50,6 +54,7 @@ export const useAgentManagement = () => {
         name: '',
         role: '',
         description: '',
+        provider: 'ollama',
         model: 'llama3',
         temperature: 0.7,
         maxTokens: 4000,
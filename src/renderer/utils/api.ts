@@ -1,4 +1,4 @@
-import { Agent, Conversation, Message, Memory, OllamaStatus } from '../../shared/types';
+import { Agent, Conversation, Message, Memory, OllamaStatus, UsageTotals, ProviderSetting, ProviderSettingInput, ProviderTestResult, ModelInfo, LLMQueueStats, TeamDefinition, WorkflowApproval, ApprovalStatus, WorkflowRunStatus, WorkflowRunSummary, WorkflowExecution, QueuePolicy, WorkflowTemplate } from '../../shared/types';
 
 const API_URL = 'http://localhost:3001/api';
 
@@ -162,6 +162,250 @@ export class ApiService {
     }
   }
 
+  async fetchUsageTotals(filter: { agentId?: string; conversationId?: string; projectId?: string } = {}): Promise<UsageTotals | null> {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filter).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+      });
+      const response = await fetch(`${API_URL}/usage/totals?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch usage totals');
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching usage totals:', error);
+      return null;
+    }
+  }
+
+  async fetchProviders(): Promise<ProviderSetting[]> {
+    try {
+      const response = await fetch(`${API_URL}/providers`);
+      if (!response.ok) throw new Error('Failed to fetch providers');
+      const data = await response.json();
+      return data.providers;
+    } catch (error) {
+      console.error('Error fetching providers:', error);
+      return [];
+    }
+  }
+
+  async saveProvider(provider: ProviderSettingInput, id?: string): Promise<ProviderSetting> {
+    try {
+      const response = await fetch(id ? `${API_URL}/providers/${id}` : `${API_URL}/providers`, {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(provider)
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save provider');
+      return data;
+    } catch (error) {
+      console.error('Error saving provider:', error);
+      throw error;
+    }
+  }
+
+  async deleteProvider(id: string): Promise<void> {
+    try {
+      const response = await fetch(`${API_URL}/providers/${id}`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) throw new Error('Failed to delete provider');
+    } catch (error) {
+      console.error('Error deleting provider:', error);
+      throw error;
+    }
+  }
+
+  async fetchTeams(): Promise<TeamDefinition[]> {
+    try {
+      const response = await fetch(`${API_URL}/teams`);
+      if (!response.ok) throw new Error('Failed to fetch teams');
+      const data = await response.json();
+      return data.teams;
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+      return [];
+    }
+  }
+
+  async setConversationTeam(conversationId: string, teamId: string | null): Promise<void> {
+    try {
+      const response = await fetch(`${API_URL}/conversations/${conversationId}/team`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teamId })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to set conversation team');
+    } catch (error) {
+      console.error('Error setting conversation team:', error);
+      throw error;
+    }
+  }
+
+  async fetchApprovals(conversationId: string, status?: ApprovalStatus): Promise<WorkflowApproval[]> {
+    try {
+      const query = status ? `?status=${status}` : '';
+      const response = await fetch(`${API_URL}/conversations/${conversationId}/approvals${query}`);
+      if (!response.ok) throw new Error('Failed to fetch approvals');
+      const data = await response.json();
+      return data.approvals;
+    } catch (error) {
+      console.error('Error fetching approvals:', error);
+      return [];
+    }
+  }
+
+  async decideApproval(approvalId: string, approved: boolean, comment?: string): Promise<WorkflowApproval> {
+    try {
+      const response = await fetch(`${API_URL}/approvals/${approvalId}/decision`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approved, comment })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to record approval decision');
+      return data.approval;
+    } catch (error) {
+      console.error('Error recording approval decision:', error);
+      throw error;
+    }
+  }
+
+  async fetchWorkflowExecutions(filter: { status?: WorkflowExecution['status']; conversationId?: string; workflowId?: string; limit?: number } = {}): Promise<WorkflowExecution[]> {
+    try {
+      const params = new URLSearchParams();
+      if (filter.status) params.set('status', filter.status);
+      if (filter.conversationId) params.set('conversationId', filter.conversationId);
+      if (filter.workflowId) params.set('workflowId', filter.workflowId);
+      if (filter.limit) params.set('limit', String(filter.limit));
+      const response = await fetch(`${API_URL}/workflow/executions?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch workflow executions');
+      const data = await response.json();
+      return data.executions;
+    } catch (error) {
+      console.error('Error fetching workflow executions:', error);
+      return [];
+    }
+  }
+
+  async fetchWorkflowRuns(filter: { status?: WorkflowRunStatus; conversationId?: string } = {}): Promise<WorkflowRunSummary[]> {
+    try {
+      const params = new URLSearchParams();
+      if (filter.status) params.set('status', filter.status);
+      if (filter.conversationId) params.set('conversationId', filter.conversationId);
+      const response = await fetch(`${API_URL}/workflow/runs?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch workflow runs');
+      const data = await response.json();
+      return data.runs;
+    } catch (error) {
+      console.error('Error fetching workflow runs:', error);
+      return [];
+    }
+  }
+
+  async resumeWorkflowRun(runId: string): Promise<void> {
+    try {
+      const response = await fetch(`${API_URL}/workflow/runs/${runId}/resume`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to resume workflow run');
+    } catch (error) {
+      console.error('Error resuming workflow run:', error);
+      throw error;
+    }
+  }
+
+  async abandonWorkflowRun(runId: string): Promise<void> {
+    try {
+      const response = await fetch(`${API_URL}/workflow/runs/${runId}/abandon`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to abandon workflow run');
+    } catch (error) {
+      console.error('Error abandoning workflow run:', error);
+      throw error;
+    }
+  }
+
+  async setConversationQueuePolicy(conversationId: string, policy: QueuePolicy | null): Promise<void> {
+    try {
+      const response = await fetch(`${API_URL}/conversations/${conversationId}/queue-policy`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ policy })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to set conversation queue policy');
+    } catch (error) {
+      console.error('Error setting conversation queue policy:', error);
+      throw error;
+    }
+  }
+
+  async fetchWorkflowTemplates(): Promise<WorkflowTemplate[]> {
+    try {
+      const response = await fetch(`${API_URL}/workflow/templates`);
+      if (!response.ok) throw new Error('Failed to fetch workflow templates');
+      const data = await response.json();
+      return data.templates;
+    } catch (error) {
+      console.error('Error fetching workflow templates:', error);
+      return [];
+    }
+  }
+
+  async setConversationWorkflowTemplate(conversationId: string, templateId: string | null): Promise<void> {
+    try {
+      const response = await fetch(`${API_URL}/conversations/${conversationId}/workflow-template`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ templateId })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to set conversation workflow template');
+    } catch (error) {
+      console.error('Error setting conversation workflow template:', error);
+      throw error;
+    }
+  }
+
+  async testProvider(id: string): Promise<ProviderTestResult> {
+    try {
+      const response = await fetch(`${API_URL}/providers/${id}/test`, {
+        method: 'POST'
+      });
+      if (!response.ok) throw new Error('Failed to test provider');
+      return await response.json();
+    } catch (error: any) {
+      console.error('Error testing provider:', error);
+      return { connected: false, models: [], error: error.message };
+    }
+  }
+
+  async fetchQueueStats(): Promise<LLMQueueStats[]> {
+    try {
+      const response = await fetch(`${API_URL}/llm/queue`);
+      if (!response.ok) throw new Error('Failed to fetch LLM queue stats');
+      const data = await response.json();
+      return data.queues;
+    } catch (error) {
+      console.error('Error fetching LLM queue stats:', error);
+      return [];
+    }
+  }
+
+  async fetchModels(refresh: boolean = false): Promise<ModelInfo[]> {
+    try {
+      const response = await fetch(`${API_URL}/models${refresh ? '?refresh=true' : ''}`);
+      if (!response.ok) throw new Error('Failed to fetch models');
+      const data = await response.json();
+      return data.models;
+    } catch (error) {
+      console.error('Error fetching models:', error);
+      return [];
+    }
+  }
+
   async reloadAgents(): Promise<void> {
     try {
       const response = await fetch(`${API_URL}/agents/reload`, {
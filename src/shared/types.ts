@@ -9,10 +9,21 @@ export interface Agent {
   capabilities?: string[];
   config: {
     llmProvider: string;
+    endpoint?: string; // Registered endpoint name for 'openai-compatible' providers
     model: string;
     temperature: number;
     maxTokens: number;
+    contextWindow?: number; // Overrides the model's known context size (sets num_ctx for Ollama)
     systemPrompt: string;
+    tools?: string[]; // IDs of tools this agent may call
+    fallbacks?: string[]; // e.g. ["ollama:mistral", "anthropic:claude-3-haiku-20240307"]
+    retryPolicy?: {
+      maxRetries?: number;
+      initialDelayMs?: number;
+      maxDelayMs?: number;
+      backoffMultiplier?: number;
+      jitter?: number;
+    };
   };
 }
 
@@ -22,6 +33,106 @@ export interface Conversation {
   type: string;
   projectId: string;
   participants: string[];
+  teamId?: string | null; // Team that runs the full workflow in this conversation
+  workflowTemplateId?: string | null; // Published template run for messages that mention nobody
+  queuePolicy?: QueuePolicy | null; // How messages sent while a workflow runs are handled; null uses the server default
+}
+
+// fifo: wait for the running workflow; latest-wins: cancel it and drop older queued messages;
+// interrupt: hand the message to the running workflow
+export type QueuePolicy = 'fifo' | 'latest-wins' | 'interrupt';
+
+export interface TeamMember {
+  agentId: string;
+  // Instructions for this member in the full workflow; {{request}} and {{role}} are filled in
+  rolePrompt?: string;
+  // Agent IDs this member may hand off to; omitted means any other member
+  handoffs?: string[];
+  // Agent IDs this member waits for when both run in the same round, until it declares its own
+  dependsOn?: string[];
+}
+
+export interface TeamDefinition {
+  id: string;
+  name: string;
+  description?: string | null;
+  leadAgentId: string; // Starts every full workflow and routes the request to the others
+  members: TeamMember[];
+  approvalGates?: ApprovalGate[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface TeamDefinitionInput {
+  name: string;
+  description?: string;
+  leadAgentId: string;
+  members: TeamMember[];
+  approvalGates?: ApprovalGate[];
+}
+
+// A point where a workflow waits for a person to approve before going on
+export interface ApprovalGate {
+  type: 'after-phase' | 'before-agent';
+  phase?: string; // after-phase: the phase whose result must be approved
+  agentId?: string; // before-agent: agent ID, role or template node that needs approval to run
+  timeoutSeconds?: number; // Defaults to 10 minutes
+  onTimeout?: 'approve' | 'reject'; // Defaults to reject
+  rejectPhase?: string; // Templates: phase to go back to when rejected, instead of stopping
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface WorkflowApproval {
+  id: string;
+  conversationId: string;
+  gate: ApprovalGate['type'] | 'sensitive-tool';
+  target: string; // Phase name, agent ID or tool ID
+  agentId?: string | null; // Agent about to run, or calling the tool
+  title: string;
+  details?: Record<string, any> | null;
+  status: ApprovalStatus;
+  approver?: string | null;
+  comment?: string | null;
+  expiresAt: string;
+  createdAt: string;
+  decidedAt?: string | null;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  approver: string;
+  comment?: string;
+}
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted' | 'abandoned';
+
+// A workflow run saved after every agent turn, so it can be resumed after a restart
+export interface WorkflowRunSummary {
+  id: string;
+  conversationId: string;
+  messageId?: string | null; // User message that started the run
+  workflowMode: string;
+  status: WorkflowRunStatus;
+  round: number;
+  phase: string;
+  userRequest: string;
+  pendingAgents: string[]; // Agents that still had to run when the run was last saved
+  error?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkflowRunStep {
+  id: string;
+  runId: string;
+  agentId: string;
+  round: number;
+  phase: string;
+  status: 'success' | 'error' | 'skipped';
+  messageId?: string | null;
+  detail?: string | null;
+  createdAt: string;
 }
 
 export interface Message {
@@ -48,7 +159,7 @@ export interface Message {
 
 // New workflow-related types
 export interface WorkflowMode {
-  type: 'solo' | 'mini-workflow' | 'full-workflow';
+  type: 'solo' | 'mini-workflow' | 'full-workflow' | 'template';
   agents: string[];
   maxRounds: number;
   reason: string;
@@ -76,6 +187,106 @@ export interface OllamaStatus {
   models: string[];
 }
 
+export type LLMProviderType = 'openai' | 'anthropic' | 'ollama' | 'openai-compatible';
+
+export interface ProviderSetting {
+  id: string;
+  type: LLMProviderType;
+  name: string;
+  baseUrl: string | null;
+  hasApiKey: boolean;
+  apiKeyHint: string | null; // Last characters of the stored key, e.g. "…a1b2"
+  models: string[];
+  enabled: boolean;
+}
+
+export interface ProviderSettingInput {
+  type: LLMProviderType;
+  name?: string;
+  baseUrl?: string;
+  apiKey?: string; // Omit to keep the stored key, empty string to clear it
+  models?: string[];
+  enabled?: boolean;
+}
+
+export interface ProviderTestResult {
+  connected: boolean;
+  models: string[];
+  error?: string;
+}
+
+// What a model can do; undefined means unknown
+export interface ModelCapabilities {
+  contextWindow?: number;
+  toolCalling?: boolean;
+  jsonMode?: boolean;
+  vision?: boolean;
+  embedding?: boolean;
+}
+
+export interface ModelInfo {
+  provider: LLMProviderType;
+  endpoint?: string; // Registered endpoint name for 'openai-compatible' providers
+  model: string;
+  capabilities: ModelCapabilities;
+  source: 'provider' | 'builtin' | 'unknown'; // Where the capabilities came from before overrides
+  overridden: boolean;
+}
+
+// Live reply streaming: start, any number of deltas, then end. The final
+// 'new-message' carries the same id as the provisional messageId.
+export interface MessageStreamStart {
+  messageId: string;
+  conversationId: string;
+  agentId: string;
+  agent?: { id: string; name: string; avatar: string; role: string };
+  timestamp: string;
+}
+
+export interface MessageStreamDelta {
+  messageId: string;
+  conversationId: string;
+  agentId: string;
+  content: string; // Full text so far
+  delta?: string; // Text appended since the last event; absent when the text restarted (retry or fallback)
+}
+
+export interface MessageStreamEnd {
+  messageId: string;
+  conversationId: string;
+  agentId: string;
+  status: 'complete' | 'failed' | 'cancelled';
+}
+
+export type LLMPriority = 'interactive' | 'normal' | 'background';
+
+export interface ProviderLimits {
+  concurrency: number; // Requests in flight at once
+  requestsPerMinute?: number; // Unset or 0 means unlimited
+}
+
+// Scheduler queue for one provider ('ollama', 'openai-compatible:lmstudio', ...)
+export interface LLMQueueStats {
+  provider: string;
+  limits: ProviderLimits;
+  active: number;
+  queued: number;
+  queuedByPriority: Record<LLMPriority, number>;
+  requestsLastMinute: number;
+  averageWaitMs: number; // Over recently started requests
+  maxWaitMs: number;
+  oldestQueuedMs: number; // How long the longest-waiting request has been queued
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number; // USD
+  averageLatencyMs: number;
+}
+
 export interface Memory {
   [key: string]: any;
 }
@@ -117,6 +328,7 @@ export interface WorkflowConfig {
   nodes: AgentNode[];
   routingRules: RoutingRule[];
   phases: WorkflowPhase[];
+  approvalGates?: ApprovalGate[];
 }
 
 export interface RoutingRule {
@@ -1,4 +1,5 @@
 import { WorkflowOrchestrator } from './src/backend/services/WorkflowOrchestrator';
+import { LLMService } from './src/backend/services/LLMService';
 import { PrismaClient } from '@prisma/client';
 import { Message } from './src/shared/types';
 
@@ -7,7 +8,9 @@ async function testLangGraphWorkflow() {
   console.log('🚀 Testing LangGraph Workflow Orchestrator\n');
   
   const prisma = new PrismaClient();
-  const orchestrator = new WorkflowOrchestrator(prisma);
+  // Runs without a model server using LLM_REPLAY_MODE=replay (and LLM_CASSETTE_DIR)
+  // after one run with LLM_REPLAY_MODE=record
+  const orchestrator = new WorkflowOrchestrator(prisma, new LLMService());
   
   // Test message
   const testMessage: Message = {